@@ -60,6 +60,8 @@ export default withSolid([
             postcss(),
             typescript({
                 useTsconfigDeclarationDir: true,
+                // Tests are type-checked with the sources but not shipped
+                tsconfigOverride: { exclude: ["src/**/*.test.ts"] },
             }),
         ],
     },
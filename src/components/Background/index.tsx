@@ -0,0 +1,78 @@
+import { Component, createUniqueId, onCleanup, onMount } from "solid-js";
+import styles from "./styles.module.css";
+import { useSolidFlow } from "../context";
+import { defaultGrid } from "../../graph/utils";
+
+export type BackgroundVariant = "dots" | "lines" | "cross";
+
+interface Props {
+    variant?: BackgroundVariant;
+    gap?: number | [number, number];
+    color?: string;
+    // Radius of the dots, width of the lines or half the length of the crosses
+    size?: number;
+}
+
+const defaults: { [variant in BackgroundVariant]: { color: string; size: number } } = {
+    dots: { color: "#b8b8b8bf", size: 1 },
+    lines: { color: "#eeeeee", size: 1 },
+    cross: { color: "#b8b8b8bf", size: 6 },
+};
+
+// Grid drawn behind the flow, every tile is centered on a grid point so it lines up with snapGrid.
+// It replaces the static dots the flow draws by default.
+const Background: Component<Props> = (props: Props) => {
+    const flow = useSolidFlow();
+    const patternId = createUniqueId();
+
+    onMount(() => flow.setHasBackground(true));
+    onCleanup(() => flow.setHasBackground(false));
+
+    function getVariant() {
+        return props.variant ?? "dots";
+    }
+
+    function getGap(): [number, number] {
+        const gap = props.gap ?? defaultGrid;
+        const zoom = flow.viewport().zoom;
+        return typeof gap === "number" ? [gap * zoom, gap * zoom] : [gap[0] * zoom, gap[1] * zoom];
+    }
+
+    function getSize() {
+        return (props.size ?? defaults[getVariant()].size) * flow.viewport().zoom;
+    }
+
+    function getColor() {
+        return props.color ?? defaults[getVariant()].color;
+    }
+
+    function getPath() {
+        const [width, height] = getGap();
+        const size = getSize();
+        return getVariant() === "lines"
+            ? `M${width / 2} 0V${height}M0 ${height / 2}H${width}`
+            : `M${width / 2 - size} ${height / 2}h${size * 2}M${width / 2} ${height / 2 - size}v${size * 2}`;
+    }
+
+    return (
+        <svg class={styles.main}>
+            <pattern
+                id={patternId}
+                patternUnits="userSpaceOnUse"
+                x={flow.viewport().x - getGap()[0] / 2}
+                y={flow.viewport().y - getGap()[1] / 2}
+                width={getGap()[0]}
+                height={getGap()[1]}
+            >
+                {getVariant() === "dots" ? (
+                    <circle cx={getGap()[0] / 2} cy={getGap()[1] / 2} r={getSize()} fill={getColor()} />
+                ) : (
+                    <path d={getPath()} stroke={getColor()} stroke-width={getVariant() === "lines" ? getSize() : 1} fill="none" />
+                )}
+            </pattern>
+            <rect width="100%" height="100%" fill={`url(#${patternId})`} />
+        </svg>
+    );
+};
+
+export default Background;
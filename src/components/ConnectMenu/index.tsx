@@ -0,0 +1,26 @@
+import { Component, For } from "solid-js";
+import styles from "./styles.module.css";
+
+interface Props {
+    x: number;
+    y: number;
+    items: { label: string }[];
+    onSelect: (index: number) => void;
+}
+
+// Picker listing the nodes that can be created where a connection was dropped
+const ConnectMenu: Component<Props> = (props: Props) => {
+    return (
+        <div class={styles.main} style={{ left: `${props.x}px`, top: `${props.y}px` }} onPointerDown={(event: PointerEvent) => event.stopPropagation()}>
+            <For each={props.items}>
+                {(item: { label: string }, index: () => number) => (
+                    <button class={styles.item} onClick={() => props.onSelect(index())}>
+                        {item.label}
+                    </button>
+                )}
+            </For>
+        </div>
+    );
+};
+
+export default ConnectMenu;
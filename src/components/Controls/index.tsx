@@ -0,0 +1,73 @@
+import { Component, JSX, splitProps } from "solid-js";
+import styles from "./styles.module.css";
+import { PanelPosition, useSolidFlow } from "../context";
+
+interface Props {
+    position?: PanelPosition;
+    showZoom?: boolean;
+    showFitView?: boolean;
+    showInteractive?: boolean;
+    fitViewOptions?: { padding?: number; nodes?: string[] };
+    // Custom buttons, placed after the built-in ones
+    children?: JSX.Element;
+}
+
+// Button styled like the built-in controls, for the custom ones
+export const ControlButton: Component<JSX.ButtonHTMLAttributes<HTMLButtonElement>> = (
+    props: JSX.ButtonHTMLAttributes<HTMLButtonElement>
+) => {
+    const [local, others] = splitProps(props, ["class"]);
+    return <button type="button" class={`${styles.button} ${local.class || ""}`} {...others} />;
+};
+
+const Controls: Component<Props> = (props: Props) => {
+    const flow = useSolidFlow();
+
+    const positionClasses = {
+        "top-left": styles.topLeft,
+        "top-right": styles.topRight,
+        "bottom-left": styles.bottomLeft,
+        "bottom-right": styles.bottomRight,
+    };
+
+    return (
+        <div class={`${styles.main} ${positionClasses[props.position ?? "bottom-left"]}`}>
+            {props.showZoom !== false && (
+                <>
+                    <ControlButton title="Zoom in" onClick={() => flow.instance.zoomIn()}>
+                        <svg class={styles.icon} viewBox="0 0 24 24">
+                            <path d="M12 5v14M5 12h14" />
+                        </svg>
+                    </ControlButton>
+                    <ControlButton title="Zoom out" onClick={() => flow.instance.zoomOut()}>
+                        <svg class={styles.icon} viewBox="0 0 24 24">
+                            <path d="M5 12h14" />
+                        </svg>
+                    </ControlButton>
+                </>
+            )}
+            {props.showFitView !== false && (
+                <ControlButton title="Fit view" onClick={() => flow.instance.fitView(props.fitViewOptions)}>
+                    <svg class={styles.icon} viewBox="0 0 24 24">
+                        <path d="M4 9V4h5M15 4h5v5M20 15v5h-5M9 20H4v-5" />
+                    </svg>
+                </ControlButton>
+            )}
+            {props.showInteractive !== false && (
+                <ControlButton
+                    title={flow.interactive() ? "Lock" : "Unlock"}
+                    aria-pressed={!flow.interactive()}
+                    onClick={() => flow.setInteractive(!flow.interactive())}
+                >
+                    <svg class={styles.icon} viewBox="0 0 24 24">
+                        <rect x="5" y="11" width="14" height="10" rx="2" />
+                        <path d={flow.interactive() ? "M8 11V7a4 4 0 0 1 7.9-1" : "M8 11V7a4 4 0 0 1 8 0v4"} />
+                    </svg>
+                </ControlButton>
+            )}
+            {props.children}
+        </div>
+    );
+};
+
+export default Controls;
@@ -1,13 +1,43 @@
-import { Component, createEffect, createSignal, onCleanup } from "solid-js";
+import { Component, createEffect, createSignal, JSX } from "solid-js";
+import { Dynamic } from "solid-js/web";
+import { edgePaths, getBezierPath } from "../../graph/paths";
 import styles from "./styles.module.css";
 
+type PortSide = "left" | "right" | "top" | "bottom";
+
+export interface EdgeTypeProps {
+    id: string;
+    sourceX: number;
+    sourceY: number;
+    sourcePosition: PortSide;
+    targetX: number;
+    targetY: number;
+    targetPosition: PortSide;
+    selected: boolean;
+    markerStart?: string;
+    markerEnd?: string;
+    style?: JSX.CSSProperties;
+}
+
 interface Props {
+    id?: string;
+    type?: string;
+    component?: Component<EdgeTypeProps>;
+    label?: JSX.Element;
+    labelStyle?: JSX.CSSProperties;
+    markerStart?: string;
+    markerEnd?: string;
+    style?: JSX.CSSProperties;
+    class?: string;
+    animated?: boolean;
     selected: boolean;
     isNew: boolean;
+    sourceSide: PortSide;
+    targetSide: PortSide;
     position: { x0: number; y0: number; x1: number; y1: number };
-    onClickEdge: () => void;
-    onClickDelete: () => void;
-    onClickOutside: () => void;
+    onClickEdge: (event: any) => void;
+    onClickDelete?: () => void;
+    onEndpointMouseDown?: (end: "source" | "target") => void;
 }
 
 const EdgeComponent: Component<Props> = (props: Props) => {
@@ -25,37 +55,86 @@ const EdgeComponent: Component<Props> = (props: Props) => {
         });
     });
 
-    function clickOutside(el: any, accessor: any) {
-        const onClick = (e: any) => {
-            if (!el.contains(e.target)) {
-                accessor()?.();
-            }
-        };
-        document.body.addEventListener("click", onClick);
-        onCleanup(() => document.body.removeEventListener("click", onClick));
+    function calculatePath(): string {
+        const pathFunction = edgePaths[props.type || "bezier"] || getBezierPath;
+        const [path] = pathFunction({
+            sourceX: props.position.x0,
+            sourceY: props.position.y0,
+            sourcePosition: props.sourceSide,
+            targetX: props.position.x1,
+            targetY: props.position.y1,
+            targetPosition: props.targetSide,
+        });
+        return path;
     }
 
-    function calculateOffset(value: number): number {
-        return (value * 100) / 200;
+    // Touch pointers are captured by the element they go down on, the canvas has to receive the drag
+    function handleOnPointerDownEndpoint(event: PointerEvent, end: "source" | "target") {
+        (event.target as Element).releasePointerCapture(event.pointerId);
+        props.onEndpointMouseDown?.(end);
     }
 
     return (
         <>
-            <path
-                class={props.isNew ? styles.edgeNew : props.selected ? styles.edgeSelected : styles.edge}
-                d={`M ${props.position.x0} ${props.position.y0} C ${
-                    props.position.x0 + calculateOffset(Math.abs(props.position.x1 - props.position.x0))
-                } ${props.position.y0}, ${props.position.x1 - calculateOffset(Math.abs(props.position.x1 - props.position.x0))} ${
-                    props.position.y1
-                }, ${props.position.x1} ${props.position.y1}`}
-                onClick={() => props.onClickEdge()}
-                use:clickOutside={() => props.onClickOutside()}
-            />
-            {props.selected && (
+            {props.component ? (
+                <g class={styles.custom} onClick={props.onClickEdge}>
+                    <Dynamic
+                        component={props.component}
+                        id={props.id || ""}
+                        sourceX={props.position.x0}
+                        sourceY={props.position.y0}
+                        sourcePosition={props.sourceSide}
+                        targetX={props.position.x1}
+                        targetY={props.position.y1}
+                        targetPosition={props.targetSide}
+                        selected={props.selected}
+                        markerStart={props.markerStart}
+                        markerEnd={props.markerEnd}
+                        style={props.style}
+                    />
+                </g>
+            ) : (
+                <path
+                    class={`${props.isNew ? styles.edgeNew : props.selected ? styles.edgeSelected : styles.edge} ${
+                        props.animated ? styles.animated : ""
+                    } ${props.class || ""}`}
+                    style={props.style}
+                    d={calculatePath()}
+                    marker-start={props.markerStart}
+                    marker-end={props.markerEnd}
+                    onClick={props.onClickEdge}
+                />
+            )}
+            {props.label && (
+                <foreignObject class={styles.labelWrapper} x={middlePoint().x} y={middlePoint().y} width="1" height="1">
+                    <div class={styles.label} style={props.labelStyle} onClick={props.onClickEdge}>
+                        {props.label}
+                    </div>
+                </foreignObject>
+            )}
+            {props.selected && props.onEndpointMouseDown && (
+                <>
+                    <circle
+                        class={styles.endpoint}
+                        cx={props.position.x0}
+                        cy={props.position.y0}
+                        r="10"
+                        onPointerDown={(event: PointerEvent) => handleOnPointerDownEndpoint(event, "source")}
+                    />
+                    <circle
+                        class={styles.endpoint}
+                        cx={props.position.x1}
+                        cy={props.position.y1}
+                        r="10"
+                        onPointerDown={(event: PointerEvent) => handleOnPointerDownEndpoint(event, "target")}
+                    />
+                </>
+            )}
+            {props.selected && props.onClickDelete && (
                 <g
                     class={styles.delete}
                     cursor="pointer"
-                    transform={`translate(${middlePoint().x}, ${middlePoint().y})`}
+                    transform={`translate(${middlePoint().x}, ${middlePoint().y - (props.label ? 24 : 0)})`}
                     onClick={props.onClickDelete}
                 >
                     <circle class={styles.circle} />
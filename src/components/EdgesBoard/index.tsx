@@ -1,5 +1,5 @@
-import { Component, createEffect, createSignal, For } from "solid-js";
-import EdgeComponent from "../EdgeComponent";
+import { Component, createEffect, createMemo, createSignal, For, JSX, Show } from "solid-js";
+import EdgeComponent, { EdgeTypeProps } from "../EdgeComponent";
 import styles from "./styles.module.css";
 
 interface Vector {
@@ -17,69 +17,181 @@ interface EdgesActive {
     [id: string]: boolean;
 }
 
+interface Viewport {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+type PortSide = "left" | "right" | "top" | "bottom";
+
+export interface EdgeMarker {
+    type: "arrow" | "arrowclosed";
+    color?: string;
+    width?: number;
+    height?: number;
+}
+
+interface EdgeData {
+    type?: string;
+    label?: JSX.Element;
+    labelStyle?: JSX.CSSProperties;
+    markerStart?: EdgeMarker | "arrow" | "arrowclosed";
+    markerEnd?: EdgeMarker | "arrow" | "arrowclosed";
+    style?: JSX.CSSProperties;
+    class?: string;
+    animated?: boolean;
+}
+
 interface Props {
-    newEdge: { position: Vector; sourceNode: number; sourceOutput: number } | null;
+    viewport: Viewport;
+    newEdge: {
+        position: Vector;
+        sourceNode: number;
+        sourceOutput: number;
+        sourceSide: PortSide;
+        targetSide?: PortSide;
+        reconnect?: { edgeId: string; end: "source" | "target" };
+    } | null;
+    edgeSides: (edgeId: string) => { source: PortSide; target: PortSide };
+    edgesData: { [id: string]: EdgeData };
+    edgeTypes?: { [type: string]: Component<EdgeTypeProps> };
     edgesActives: EdgesActive;
     edgesPositions: EdgesPositions;
+    selectedEdges: string[];
+    interactive: boolean;
+    // Whether an active edge is rendered
+    isEdgeVisible: (edgeId: string) => boolean;
+    onClickEdge: (edgeId: string, toggle: boolean) => void;
+    onReconnectStart: (edgeId: string, end: "source" | "target") => void;
     onDeleteEdge: (edgeId: string) => void;
 }
 
+const opposites: { [side: string]: PortSide } = { left: "right", right: "left", top: "bottom", bottom: "top" };
+
+// Markers are shared between edges, ids are prefixed so several boards can live in one page
+let boardsCount = 0;
+
+function toMarker(marker: EdgeMarker | "arrow" | "arrowclosed"): Required<EdgeMarker> {
+    const value = typeof marker === "string" ? { type: marker } : marker;
+    return { color: "#a8a8a8", width: 20, height: 20, ...value };
+}
+
 const EdgesBoard: Component<Props> = (props: Props) => {
     const [ids, setIds] = createSignal<string[]>([]);
-    const [selected, setSelected] = createSignal<string>("null");
+    const prefix = `solid-flow-${boardsCount++}`;
 
     createEffect(() => {
         const newIds = Object.keys(props.edgesActives).filter((elem: string) => props.edgesActives[elem]);
         setIds(newIds);
     });
 
-    createEffect(() => {
-        if (selected() !== "null" && props.newEdge !== null) setSelected("null");
+    function getMarkerId(marker: Required<EdgeMarker>) {
+        // Other characters are escaped as their code, so distinct colors never share an id
+        return `${prefix}-${marker.type}-${marker.color}-${marker.width}-${marker.height}`.replace(
+            /[^a-zA-Z0-9-]/g,
+            (char: string) => `_${char.charCodeAt(0)}_`
+        );
+    }
+
+    function getMarkerUrl(marker?: EdgeMarker | "arrow" | "arrowclosed") {
+        return marker ? `url(#${getMarkerId(toMarker(marker))})` : undefined;
+    }
+
+    const markers = createMemo(() => {
+        const unique: { [id: string]: Required<EdgeMarker> } = {};
+        Object.values(props.edgesData).forEach((edge: EdgeData) => {
+            [edge.markerStart, edge.markerEnd].forEach((marker?: EdgeMarker | "arrow" | "arrowclosed") => {
+                if (!marker) return;
+                const value = toMarker(marker);
+                unique[getMarkerId(value)] = value;
+            });
+        });
+        return Object.entries(unique);
     });
 
     return (
         <svg class={styles.main}>
-            {props.newEdge !== null && (
-                <EdgeComponent
-                    selected={false}
-                    isNew={true}
-                    position={{
-                        x0: props.newEdge.position.x0,
-                        y0: props.newEdge.position.y0,
-                        x1: props.newEdge.position.x1,
-                        y1: props.newEdge.position.y1,
+            <defs>
+                <For each={markers()}>
+                    {([id, marker]: [string, Required<EdgeMarker>]) => (
+                        <marker
+                            id={id}
+                            viewBox="-10 -10 20 20"
+                            markerUnits="userSpaceOnUse"
+                            markerWidth={marker.width}
+                            markerHeight={marker.height}
+                            orient="auto-start-reverse"
+                            refX="0"
+                            refY="0"
+                        >
+                            {marker.type === "arrowclosed" ? (
+                                <polyline points="-5,-4 0,0 -5,4 -5,-4" fill={marker.color} stroke={marker.color} stroke-width="1" />
+                            ) : (
+                                <polyline points="-5,-4 0,0 -5,4" fill="none" stroke={marker.color} stroke-width="1" />
+                            )}
+                        </marker>
+                    )}
+                </For>
+            </defs>
+            <g transform={`translate(${props.viewport.x} ${props.viewport.y}) scale(${props.viewport.zoom})`}>
+                {props.newEdge !== null && (
+                    <EdgeComponent
+                        selected={false}
+                        isNew={true}
+                        sourceSide={props.newEdge.sourceSide}
+                        targetSide={props.newEdge.targetSide || opposites[props.newEdge.sourceSide]}
+                        position={{
+                            x0: props.newEdge.position.x0,
+                            y0: props.newEdge.position.y0,
+                            x1: props.newEdge.position.x1,
+                            y1: props.newEdge.position.y1,
+                        }}
+                        onClickDelete={() => {}}
+                        onClickEdge={() => {}}
+                    />
+                )}
+                <For each={ids()}>
+                    {(edgeId: string) => {
+                        if (props.edgesActives[edgeId])
+                            return (
+                                <Show when={props.newEdge?.reconnect?.edgeId !== edgeId && props.isEdgeVisible(edgeId)}>
+                                    <EdgeComponent
+                                        id={edgeId}
+                                        type={props.edgesData[edgeId]?.type}
+                                        component={props.edgeTypes?.[props.edgesData[edgeId]?.type || ""]}
+                                        label={props.edgesData[edgeId]?.label}
+                                        labelStyle={props.edgesData[edgeId]?.labelStyle}
+                                        markerStart={getMarkerUrl(props.edgesData[edgeId]?.markerStart)}
+                                        markerEnd={getMarkerUrl(props.edgesData[edgeId]?.markerEnd)}
+                                        style={props.edgesData[edgeId]?.style}
+                                        class={props.edgesData[edgeId]?.class}
+                                        animated={props.edgesData[edgeId]?.animated}
+                                        selected={props.selectedEdges.includes(edgeId)}
+                                        isNew={false}
+                                        sourceSide={props.edgeSides(edgeId).source}
+                                        targetSide={props.edgeSides(edgeId).target}
+                                        position={{
+                                            x0: props.edgesPositions[edgeId]?.x0 || 0,
+                                            y0: props.edgesPositions[edgeId]?.y0 || 0,
+                                            x1: props.edgesPositions[edgeId]?.x1 || 0,
+                                            y1: props.edgesPositions[edgeId]?.y1 || 0,
+                                        }}
+                                        onClickDelete={props.interactive ? () => props.onDeleteEdge(edgeId) : undefined}
+                                        onClickEdge={(event: any) => {
+                                            props.onClickEdge(edgeId, event.shiftKey || event.ctrlKey || event.metaKey);
+                                        }}
+                                        onEndpointMouseDown={
+                                            props.interactive
+                                                ? (end: "source" | "target") => props.onReconnectStart(edgeId, end)
+                                                : undefined
+                                        }
+                                    />
+                                </Show>
+                            );
                     }}
-                    onClickDelete={() => {}}
-                    onClickEdge={() => {}}
-                    onClickOutside={() => {}}
-                />
-            )}
-            <For each={ids()}>
-                {(edgeId: string) => {
-                    if (props.edgesActives[edgeId])
-                        return (
-                            <EdgeComponent
-                                selected={edgeId === selected()}
-                                isNew={false}
-                                position={{
-                                    x0: props.edgesPositions[edgeId]?.x0 || 0,
-                                    y0: props.edgesPositions[edgeId]?.y0 || 0,
-                                    x1: props.edgesPositions[edgeId]?.x1 || 0,
-                                    y1: props.edgesPositions[edgeId]?.y1 || 0,
-                                }}
-                                onClickDelete={() => {
-                                    props.onDeleteEdge(edgeId);
-                                }}
-                                onClickEdge={() => {
-                                    setSelected(edgeId);
-                                }}
-                                onClickOutside={() => {
-                                    if (selected() === edgeId) setSelected("null");
-                                }}
-                            />
-                        );
-                }}
-            </For>
+                </For>
+            </g>
         </svg>
     );
 };
@@ -0,0 +1,132 @@
+import { Component, createMemo, createSignal, For } from "solid-js";
+import styles from "./styles.module.css";
+import { PanelPosition, useSolidFlow } from "../context";
+import { NodeData, Position, Rect } from "../../graph/types";
+import { getNodesBounds, getRectsUnion, getViewportRect } from "../../graph/viewport";
+
+interface Props {
+    nodeColor?: (node: NodeData) => string;
+    position?: PanelPosition;
+    width?: number;
+    height?: number;
+}
+
+// Scaled down overview of the flow, the visible area can be dragged and a click centers the view on that point
+const MiniMap: Component<Props> = (props: Props) => {
+    const flow = useSolidFlow();
+    let svg: any;
+
+    const positionClasses = {
+        "top-left": styles.topLeft,
+        "top-right": styles.topRight,
+        "bottom-left": styles.bottomLeft,
+        "bottom-right": styles.bottomRight,
+    };
+
+    // The box is frozen while dragging, otherwise it would move under the pointer as the viewport does
+    const [dragging, setDragging] = createSignal<Position | null>(null);
+    let frozenBox: Rect | null = null;
+
+    const viewportRect = createMemo(() => getViewportRect(flow.viewport(), flow.canvasSize()));
+
+    const box = createMemo(() => {
+        if (dragging() !== null && frozenBox !== null) return frozenBox;
+        const bounds = getNodesBounds(flow.nodesPositions, flow.nodesDimensions());
+        const rect = bounds ? getRectsUnion(bounds, viewportRect()) : viewportRect();
+        const padding = Math.max(rect.width, rect.height) * 0.05;
+        return { x: rect.x - padding, y: rect.y - padding, width: rect.width + padding * 2, height: rect.height + padding * 2 };
+    });
+
+    function toGraph(event: PointerEvent): Position {
+        const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(svg.getScreenCTM().inverse());
+        return { x: point.x, y: point.y };
+    }
+
+    function centerAt(point: Position) {
+        const { zoom } = flow.viewport();
+        const { width, height } = flow.canvasSize();
+        flow.setViewport({ x: width / 2 - point.x * zoom, y: height / 2 - point.y * zoom, zoom });
+    }
+
+    function handleOnPointerDown(event: PointerEvent) {
+        if (event.button !== 0) return;
+        event.stopPropagation();
+        svg.setPointerCapture(event.pointerId);
+        frozenBox = box();
+        const point = toGraph(event);
+        const rect = viewportRect();
+        const inside = point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+        if (!inside) centerAt(point);
+        setDragging(point);
+    }
+
+    function handleOnPointerMove(event: PointerEvent) {
+        const last = dragging();
+        if (last === null) return;
+        const point = toGraph(event);
+        const viewport = flow.viewport();
+        flow.setViewport({
+            x: viewport.x - (point.x - last.x) * viewport.zoom,
+            y: viewport.y - (point.y - last.y) * viewport.zoom,
+            zoom: viewport.zoom,
+        });
+        setDragging(point);
+    }
+
+    function handleOnPointerUp() {
+        setDragging(null);
+        frozenBox = null;
+    }
+
+    function getNodeColor(node: NodeData) {
+        return props.nodeColor ? props.nodeColor(node) : node.color;
+    }
+
+    // Everything but the visible area is covered by the mask
+    function getMaskPath() {
+        const outer = box();
+        const inner = viewportRect();
+        return (
+            `M${outer.x},${outer.y}h${outer.width}v${outer.height}h${-outer.width}z` +
+            `M${inner.x},${inner.y}h${inner.width}v${inner.height}h${-inner.width}z`
+        );
+    }
+
+    return (
+        <svg
+            ref={svg}
+            class={`${styles.main} ${positionClasses[props.position ?? "bottom-right"]}`}
+            width={props.width ?? 200}
+            height={props.height ?? 150}
+            viewBox={`${box().x} ${box().y} ${box().width} ${box().height}`}
+            onPointerDown={handleOnPointerDown}
+            onPointerMove={handleOnPointerMove}
+            onPointerUp={handleOnPointerUp}
+            onPointerCancel={handleOnPointerUp}
+        >
+            <For each={flow.nodes}>
+                {(node: NodeData, index: () => number) => (
+                    <rect
+                        class={styles.node}
+                        x={flow.nodesPositions[index()]?.x ?? 0}
+                        y={flow.nodesPositions[index()]?.y ?? 0}
+                        width={flow.nodesDimensions()[index()]?.width ?? 0}
+                        height={flow.nodesDimensions()[index()]?.height ?? 0}
+                        fill={getNodeColor(node)}
+                    />
+                )}
+            </For>
+            <path class={styles.mask} d={getMaskPath()} fill-rule="evenodd" />
+            <rect
+                class={dragging() !== null ? styles.viewportDragging : styles.viewport}
+                x={viewportRect().x}
+                y={viewportRect().y}
+                width={viewportRect().width}
+                height={viewportRect().height}
+                vector-effect="non-scaling-stroke"
+            />
+        </svg>
+    );
+};
+
+export default MiniMap;
@@ -1,61 +1,164 @@
-import { Accessor, Component, For, onCleanup, onMount } from "solid-js";
+import { Accessor, Component, createEffect, For, JSX, on, onCleanup, onMount } from "solid-js";
+import { Dynamic } from "solid-js/web";
+import { PortSide } from "../../graph/types";
 import styles from "./styles.module.css";
 
-declare module "solid-js" {
-    namespace JSX {
-        interface Directives {
-            // use:model
-            clickOutside: () => void;
-        }
-    }
+interface Port {
+    offset: { x: number; y: number };
+    side: PortSide;
+}
+
+export interface HandleProps {
+    type: "input" | "output";
+    index: number;
+    position?: PortSide;
+    class?: string;
+    style?: JSX.CSSProperties;
+}
+
+export interface NodeTypeProps {
+    id: string;
+    data: { label?: string; content: any; [key: string]: any };
+    selected: boolean;
+    Handle: Component<HandleProps>;
 }
 
 interface Props {
     ref?: any;
+    id: string;
+    type?: Component<NodeTypeProps>;
+    data: { label?: string; content: any };
     x: number;
     y: number;
     selected: boolean;
+    direction: "TB" | "BT" | "LR" | "RL";
     actions?: { delete?: boolean };
     label?: string;
     content: any;
     inputs: number;
     outputs: number;
     color: string;
-    onNodeMount: (inputs: { offset: { x: number; y: number } }[], outputs: { offset: { x: number; y: number } }[]) => void;
-    onMouseDown?: (event: any) => void;
-    onMouseDownOutput?: (outputIndex: number) => void;
-    onMouseUpInput?: (inputIndex: number) => void;
-    onClickOutside: () => void;
+    onNodeMount: (
+        inputs: Port[],
+        outputs: Port[],
+        dimensions: { width: number; height: number }
+    ) => void;
+    onPointerDown?: (event: PointerEvent) => void;
+    onPointerDownOutput?: (outputIndex: number, event: PointerEvent) => void;
+    inputStatus?: (inputIndex: number) => "valid" | "invalid" | null;
     onClickDelete?: () => void;
 }
 
 const NodeComponent: Component<Props> = (props: Props) => {
-    let inputRefs = [...Array(props.inputs)];
-    let outputRefs = [...Array(props.outputs)];
+    let inputRefs: any[] = [];
+    let outputRefs: any[] = [];
+    let inputSides: (PortSide | undefined)[] = [];
+    let outputSides: (PortSide | undefined)[] = [];
+    let nodeRef: any;
 
-    onMount(() => {
-        let inputs: { offset: { x: number; y: number } }[] = [];
-        let outputs: { offset: { x: number; y: number } }[] = [];
-        for (let i = 0; i < inputRefs.length; i++) {
-            inputs.push({ offset: { x: inputRefs[i].getBoundingClientRect().x, y: inputRefs[i].getBoundingClientRect().y } });
-        }
+    const sideClasses = {
+        left: styles.portsLeft,
+        right: styles.portsRight,
+        top: styles.portsTop,
+        bottom: styles.portsBottom,
+    };
+    const sides: { [direction: string]: { inputs: PortSide; outputs: PortSide } } = {
+        LR: { inputs: "left", outputs: "right" },
+        RL: { inputs: "right", outputs: "left" },
+        TB: { inputs: "top", outputs: "bottom" },
+        BT: { inputs: "bottom", outputs: "top" },
+    };
+
+    function isVertical() {
+        return props.direction === "TB" || props.direction === "BT";
+    }
 
-        for (let i = 0; i < outputRefs.length; i++) {
-            outputs.push({ offset: { x: outputRefs[i].getBoundingClientRect().x, y: outputRefs[i].getBoundingClientRect().y } });
+    // Ports that a custom node doesn't render are measured at the node origin
+    function measurePorts(count: number, refs: any[], portSides: (PortSide | undefined)[], side: PortSide): Port[] {
+        let ports: Port[] = [];
+        for (let i = 0; i < count; i++) {
+            const rect = (refs[i] || nodeRef).getBoundingClientRect();
+            ports.push({ offset: { x: rect.x, y: rect.y }, side: portSides[i] || side });
         }
-        props.onNodeMount(inputs, outputs);
+        return ports;
+    }
+
+    function measure() {
+        props.onNodeMount(
+            measurePorts(props.inputs, inputRefs, inputSides, sides[props.direction].inputs),
+            measurePorts(props.outputs, outputRefs, outputSides, sides[props.direction].outputs),
+            { width: nodeRef.offsetWidth, height: nodeRef.offsetHeight }
+        );
+    }
+
+    onMount(() => {
+        measure();
+        // Custom nodes change size with their data, the ports move along
+        const observer = new ResizeObserver(measure);
+        observer.observe(nodeRef);
+        onCleanup(() => observer.disconnect());
     });
 
-    function clickOutside(el: any, accessor: any) {
-        const onClick = (e: any) => {
-            if (!el.contains(e.target)) {
-                accessor()?.();
-            }
-        };
-        document.body.addEventListener("click", onClick);
-        onCleanup(() => document.body.removeEventListener("click", onClick));
+    // Ports are added, removed or moved to other sides of the node at runtime
+    createEffect(on([() => props.direction, () => props.inputs, () => props.outputs, () => props.label], measure, { defer: true }));
+
+    function getInputClass(index: number) {
+        const status = props.inputStatus?.(index);
+        return status === "valid" ? styles.inputValid : status === "invalid" ? styles.inputInvalid : "";
     }
 
+    // Releasing the pointer on a port is handled by the canvas, which finds the port from its
+    // `data-handle-*` attributes since the pointer is captured while drawing an edge
+    function handleOnPointerDownInput(event: PointerEvent) {
+        event.stopPropagation();
+    }
+
+    function handleOnPointerDownOutput(event: PointerEvent, index: number) {
+        event.stopPropagation();
+        if (props.onPointerDownOutput) props.onPointerDownOutput(index, event);
+    }
+
+    // Port primitive handed to custom node types, it can be placed anywhere in their markup
+    const Handle: Component<HandleProps> = (handleProps: HandleProps) => {
+        let handleRef: any;
+
+        // A removed handle is measured at the node origin again, not at its detached element
+        onCleanup(() => {
+            const refs = handleProps.type === "input" ? inputRefs : outputRefs;
+            const portSides = handleProps.type === "input" ? inputSides : outputSides;
+            if (refs[handleProps.index] !== handleRef) return;
+            refs[handleProps.index] = undefined;
+            portSides[handleProps.index] = undefined;
+            queueMicrotask(() => {
+                if (nodeRef.isConnected) measure();
+            });
+        });
+
+        return (
+            <div
+                ref={(ref: any) => {
+                    handleRef = ref;
+                    if (handleProps.type === "input") {
+                        inputRefs[handleProps.index] = ref;
+                        inputSides[handleProps.index] = handleProps.position;
+                    } else {
+                        outputRefs[handleProps.index] = ref;
+                        outputSides[handleProps.index] = handleProps.position;
+                    }
+                }}
+                class={`${handleProps.type === "input" ? `${styles.nodeInput} ${getInputClass(handleProps.index)}` : styles.nodeOutput} ${
+                    styles.handle
+                } ${handleProps.class || ""}`}
+                style={handleProps.style}
+                data-handle-type={handleProps.type}
+                data-handle-index={handleProps.index}
+                onPointerDown={(event: PointerEvent) =>
+                    handleProps.type === "input" ? handleOnPointerDownInput(event) : handleOnPointerDownOutput(event, handleProps.index)
+                }
+            ></div>
+        );
+    };
+
     function generateCalcString(value1: number, value2: number) {
         const betterValue = Math.max(value1, value2);
         const calcString = `calc(50px * ${betterValue})`;
@@ -64,11 +167,22 @@ const NodeComponent: Component<Props> = (props: Props) => {
 
     return (
         <div
-            ref={props.ref}
-            class={props.selected ? styles.nodeSelected : styles.node}
-            style={{ transform: `translate(${props.x}px, ${props.y}px)`, "min-height": generateCalcString(props.inputs, props.outputs), "background-color": props.color }}
-            onMouseDown={props.onMouseDown}
-            use:clickOutside={() => props.onClickOutside()}
+            ref={(ref: any) => {
+                nodeRef = ref;
+                if (typeof props.ref === "function") props.ref(ref);
+            }}
+            class={props.type ? (props.selected ? styles.customNodeSelected : styles.customNode) : props.selected ? styles.nodeSelected : styles.node}
+            style={
+                props.type
+                    ? { transform: `translate(${props.x}px, ${props.y}px)` }
+                    : {
+                          transform: `translate(${props.x}px, ${props.y}px)`,
+                          [isVertical() ? "min-width" : "min-height"]: generateCalcString(props.inputs, props.outputs),
+                          "background-color": props.color,
+                      }
+            }
+            data-node-id={props.id}
+            onPointerDown={props.onPointerDown}
         >
             <div class={props.selected ? styles.actions : styles.actionsHidden}>
                 {props.actions && props.actions.delete && (
@@ -88,46 +202,47 @@ const NodeComponent: Component<Props> = (props: Props) => {
                     </svg>
                 )}
             </div>
-            {props.label && <span class={styles.nodeLabel}>{props.label}</span>}
-            <div class={styles.nodeContent}>{props.content}</div>
-            {props.inputs > 0 && (
-                <div class={styles.nodeInputs}>
-                    <For each={[...Array(props.inputs).keys()]}>
-                        {(item: number, index: Accessor<number>) => (
-                            <div
-                                ref={(ref: any) => {
-                                    inputRefs[index()] = ref;
-                                }}
-                                class={styles.nodeInput}
-                                onMouseDown={(event: any) => {
-                                    event.stopPropagation();
-                                }}
-                                onMouseUp={(event: any) => {
-                                    event.stopPropagation();
-                                    if (props.onMouseUpInput) props.onMouseUpInput(index());
-                                }}
-                            ></div>
-                        )}
-                    </For>
-                </div>
-            )}
-            {props.outputs > 0 && (
-                <div id="outputs" class={styles.nodeOutputs}>
-                    <For each={[...Array(props.outputs).keys()]}>
-                        {(item: number, index: Accessor<number>) => (
-                            <div
-                                ref={(ref: any) => {
-                                    outputRefs[index()] = ref;
-                                }}
-                                class={styles.nodeOutput}
-                                onMouseDown={(event: any) => {
-                                    event.stopPropagation();
-                                    if (props.onMouseDownOutput) props.onMouseDownOutput(index());
-                                }}
-                            ></div>
-                        )}
-                    </For>
-                </div>
+            {props.type ? (
+                <Dynamic component={props.type} id={props.id} data={props.data} selected={props.selected} Handle={Handle} />
+            ) : (
+                <>
+                    {props.label && <span class={styles.nodeLabel}>{props.label}</span>}
+                    <div class={styles.nodeContent}>{props.content}</div>
+                    {props.inputs > 0 && (
+                        <div class={sideClasses[sides[props.direction].inputs]}>
+                            <For each={[...Array(props.inputs).keys()]}>
+                                {(item: number, index: Accessor<number>) => (
+                                    <div
+                                        ref={(ref: any) => {
+                                            inputRefs[index()] = ref;
+                                        }}
+                                        class={`${styles.nodeInput} ${getInputClass(index())}`}
+                                        data-handle-type="input"
+                                        data-handle-index={index()}
+                                        onPointerDown={handleOnPointerDownInput}
+                                    ></div>
+                                )}
+                            </For>
+                        </div>
+                    )}
+                    {props.outputs > 0 && (
+                        <div id="outputs" class={sideClasses[sides[props.direction].outputs]}>
+                            <For each={[...Array(props.outputs).keys()]}>
+                                {(item: number, index: Accessor<number>) => (
+                                    <div
+                                        ref={(ref: any) => {
+                                            outputRefs[index()] = ref;
+                                        }}
+                                        class={styles.nodeOutput}
+                                        data-handle-type="output"
+                                        data-handle-index={index()}
+                                        onPointerDown={(event: PointerEvent) => handleOnPointerDownOutput(event, index())}
+                                    ></div>
+                                )}
+                            </For>
+                        </div>
+                    )}
+                </>
             )}
         </div>
     );
@@ -1,9 +1,14 @@
-import { Accessor, Component, createSignal, For } from "solid-js";
-import NodeComponent from "../NodeComponent";
+import { Accessor, Component, createSignal, For, Show } from "solid-js";
+import NodeComponent, { NodeTypeProps } from "../NodeComponent";
+import { Direction, PortSide, Position, Rect, Viewport } from "../../graph/types";
+import { getRectFromPoints } from "../../graph/selection";
+import { screenToGraph } from "../../graph/viewport";
+import { isCanvasDrop } from "../../graph/connections";
 import styles from "./styles.module.css";
 
 interface NodeProps {
     id: string;
+    type?: string;
     data: { label?: string; content: any };
     inputs: number;
     outputs: number;
@@ -12,99 +17,271 @@ interface NodeProps {
 }
 
 interface Props {
+    viewport: Viewport;
+    direction: Direction;
     nodesPositions: { x: number; y: number }[];
     nodes: NodeProps[];
+    selectedNodes: string[];
+    interactive: boolean;
+    // Whether the node at an index is rendered
+    isNodeVisible: (nodeIndex: number) => boolean;
+    nodeTypes?: { [type: string]: Component<NodeTypeProps> };
     onNodeMount: (values: {
         nodeIndex: number;
-        inputs: { offset: { x: number; y: number } }[];
-        outputs: { offset: { x: number; y: number } }[];
+        inputs: { offset: { x: number; y: number }; side: PortSide }[];
+        outputs: { offset: { x: number; y: number }; side: PortSide }[];
+        dimensions: { width: number; height: number };
     }) => void;
-    onNodePress: (x: number, y: number) => void;
+    onNodePress: (nodeIndex: number, x: number, y: number, toggle: boolean) => void;
     onNodeMove: (nodeIndex: number, x: number, y: number) => void;
     onNodeDelete: (nodeId: string) => void;
     onOutputMouseDown: (nodeIndex: number, outputIndex: number) => void;
     onInputMouseUp: (nodeIndex: number, inputIndex: number) => void;
-    onMouseUp: () => void;
+    onOutputMouseUp: (nodeIndex: number, outputIndex: number) => void;
+    inputStatus: (nodeIndex: number, inputIndex: number) => "valid" | "invalid" | null;
+    // `canvasDrop` is set when an edge being drawn was dragged away and released off any node
+    onMouseUp: (event: MouseEvent, x: number, y: number, canvasDrop: boolean) => void;
     onMouseMove: (x: number, y: number) => void;
+    onPan: (deltaX: number, deltaY: number) => void;
+    onZoom: (factor: number, point: Position) => void;
+    onSelectionBox: (rect: Rect) => void;
+    onSceneClick: () => void;
 }
 
 const NodesBoard: Component<Props> = (props: Props) => {
     const [grabbing, setGrabbing] = createSignal<number | null>(null);
-    const [selected, setSelected] = createSignal<number | null>(null);
+    const [panning, setPanning] = createSignal<{ x: number; y: number } | null>(null);
+    // Corners of the selection rectangle, relative to the scene
+    const [selecting, setSelecting] = createSignal<{ start: Position; end: Position } | null>(null);
 
     let scene: any;
+    let panned = false;
+    // Where the pointer was pressed on an output to draw an edge
+    let pressed: Position | null = null;
+    // Touch points down on the scene, two of them pinch to zoom
+    const pointers = new Map<number, Position>();
+    let pinch: { distance: number; center: Position } | null = null;
 
-    function handleOnMouseMoveScene(event: any) {
-        const x = event.x - scene.getBoundingClientRect().x;
-        const y = event.y - scene.getBoundingClientRect().y;
+    function toScene(x: number, y: number) {
+        const rect = scene.getBoundingClientRect();
+        return { x: x - rect.x, y: y - rect.y };
+    }
+
+    function toGraph(x: number, y: number) {
+        return screenToGraph(toScene(x, y), props.viewport);
+    }
+
+    function getPinch() {
+        const [first, second] = [...pointers.values()];
+        return {
+            distance: Math.hypot(first.x - second.x, first.y - second.y),
+            center: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 },
+        };
+    }
+
+    function resetGestures() {
+        setGrabbing(null);
+        setPanning(null);
+        setSelecting(null);
+    }
+
+    function handleOnPointerDownScene(event: PointerEvent) {
+        if (event.pointerType === "touch") pointers.set(event.pointerId, toScene(event.clientX, event.clientY));
+        // A second finger turns whatever the first one started into a pinch
+        if (pointers.size === 2) {
+            resetGestures();
+            pinch = getPinch();
+            return;
+        }
+        if (event.target !== scene || event.button !== 0) return;
+        if (event.shiftKey) {
+            const point = toScene(event.clientX, event.clientY);
+            setSelecting({ start: point, end: point });
+            return;
+        }
+        panned = false;
+        setPanning({ x: event.clientX, y: event.clientY });
+    }
+
+    function handleOnPointerMoveScene(event: PointerEvent) {
+        if (pointers.has(event.pointerId)) pointers.set(event.pointerId, toScene(event.clientX, event.clientY));
+        if (pinch !== null) {
+            if (pointers.size < 2) return;
+            const next = getPinch();
+            props.onPan(next.center.x - pinch.center.x, next.center.y - pinch.center.y);
+            props.onZoom(next.distance / pinch.distance, next.center);
+            pinch = next;
+            return;
+        }
+        // Once dragging, the scene keeps receiving the pointer wherever it goes
+        if (event.buttons !== 0 && !scene.hasPointerCapture(event.pointerId)) scene.setPointerCapture(event.pointerId);
+
+        const box = selecting();
+        if (box !== null) {
+            const end = toScene(event.clientX, event.clientY);
+            setSelecting({ start: box.start, end });
+            props.onSelectionBox(getRectFromPoints(screenToGraph(box.start, props.viewport), screenToGraph(end, props.viewport)));
+            return;
+        }
+        const pan = panning();
+        if (pan !== null) {
+            panned = true;
+            props.onPan(event.clientX - pan.x, event.clientY - pan.y);
+            setPanning({ x: event.clientX, y: event.clientY });
+            return;
+        }
+        const { x, y } = toGraph(event.clientX, event.clientY);
         if (grabbing() !== null) {
             props.onNodeMove(grabbing() || 0, x, y);
         }
         props.onMouseMove(x, y);
     }
 
-    function handleOnMouseUpScene(event: any) {
-        setGrabbing(null);
-        props.onMouseUp();
+    // The pointer is captured, the port it was released on is found from its position
+    function getDroppedHandle(target: Element | null) {
+        const handle = target?.closest("[data-handle-type]");
+        if (!handle) return null;
+        const nodeId = handle.closest("[data-node-id]")?.getAttribute("data-node-id");
+        return {
+            type: handle.getAttribute("data-handle-type"),
+            nodeIndex: props.nodes.findIndex((node: NodeProps) => node.id === nodeId),
+            index: Number(handle.getAttribute("data-handle-index")),
+        };
+    }
+
+    function handleOnPointerUpScene(event: PointerEvent) {
+        pointers.delete(event.pointerId);
+        if (pinch !== null) {
+            if (pointers.size < 2) pinch = null;
+            return;
+        }
+
+        // The drop on a port is handled first, the release still ends any drag going on
+        const target = document.elementFromPoint(event.clientX, event.clientY);
+        const handle = getDroppedHandle(target);
+        if (handle !== null && handle.nodeIndex >= 0) {
+            if (handle.type === "input") props.onInputMouseUp(handle.nodeIndex, handle.index);
+            else props.onOutputMouseUp(handle.nodeIndex, handle.index);
+        }
+
+        // A click on the empty canvas, without dragging it, clears the selection
+        if (panning() !== null && !panned) props.onSceneClick();
+        resetGestures();
+        const { x, y } = toGraph(event.clientX, event.clientY);
+        const canvasDrop =
+            pressed !== null &&
+            isCanvasDrop(pressed, { x: event.clientX, y: event.clientY }, !!target?.closest("[data-node-id], [data-handle-type]"));
+        pressed = null;
+        props.onMouseUp(event, x, y, canvasDrop);
     }
 
-    function handleOnMouseDownNode(index: number, x: number, y: number) {
+    function handleOnPointerCancelScene(event: PointerEvent) {
+        pointers.delete(event.pointerId);
+        if (pointers.size < 2) pinch = null;
+        pressed = null;
+        resetGestures();
+    }
+
+    function handleOnPointerDownNode(index: number, event: PointerEvent) {
+        const point = toGraph(event.clientX, event.clientY);
         setGrabbing(index);
-        setSelected(index);
         props.onNodePress(
-            x - scene.getBoundingClientRect().x - props.nodesPositions[index].x,
-            y - scene.getBoundingClientRect().y - props.nodesPositions[index].y
+            index,
+            point.x - props.nodesPositions[index].x,
+            point.y - props.nodesPositions[index].y,
+            event.shiftKey || event.ctrlKey || event.metaKey
         );
     }
 
+    function handleOnPointerDownOutput(index: number, outputIndex: number, event: PointerEvent) {
+        pressed = { x: event.clientX, y: event.clientY };
+        props.onOutputMouseDown(index, outputIndex);
+    }
+
+    function getSelectionRect() {
+        const box = selecting();
+        return box ? getRectFromPoints(box.start, box.end) : null;
+    }
+
+    // Port positions are measured on screen, convert them into offsets from the node origin
+    function toPortOffsets(index: number, ports: { offset: { x: number; y: number }; side: PortSide }[]) {
+        return ports.map((values: { offset: { x: number; y: number }; side: PortSide }) => {
+            const point = toGraph(values.offset.x, values.offset.y);
+            return {
+                offset: {
+                    x: point.x - props.nodesPositions[index].x + 6,
+                    y: point.y - props.nodesPositions[index].y + 6,
+                },
+                side: values.side,
+            };
+        });
+    }
+
     return (
-        <div ref={scene} class={styles.main} onMouseMove={handleOnMouseMoveScene} onMouseUp={handleOnMouseUpScene}>
-            <For each={props.nodes}>
-                {(node: NodeProps, index: Accessor<number>) => (
-                    <NodeComponent
-                        x={props.nodesPositions[index()].x}
-                        y={props.nodesPositions[index()].y}
-                        selected={selected() === index()}
-                        actions={node.actions}
-                        label={node.data.label}
-                        content={node.data.content}
-                        color={node.color}
-                        inputs={node.inputs}
-                        outputs={node.outputs}
-                        onMouseDown={(event: any) => handleOnMouseDownNode(index(), event.x, event.y)}
-                        onNodeMount={(inputs: { offset: { x: number; y: number } }[], outputs: { offset: { x: number; y: number } }[]) =>
-                            props.onNodeMount({
-                                nodeIndex: index(),
-                                inputs: inputs.map((values: { offset: { x: number; y: number } }) => {
-                                    return {
-                                        offset: {
-                                            x: values.offset.x - scene.getBoundingClientRect().x - props.nodesPositions[index()].x + 6,
-                                            y: values.offset.y - scene.getBoundingClientRect().y - props.nodesPositions[index()].y + 6,
-                                        },
-                                    };
-                                }),
-                                outputs: outputs.map((values: { offset: { x: number; y: number } }) => {
-                                    return {
-                                        offset: {
-                                            x: values.offset.x - scene.getBoundingClientRect().x - props.nodesPositions[index()].x + 6,
-                                            y: values.offset.y - scene.getBoundingClientRect().y - props.nodesPositions[index()].y + 6,
-                                        },
-                                    };
-                                }),
-                            })
-                        }
-                        onMouseDownOutput={(outputIndex: number) => props.onOutputMouseDown(index(), outputIndex)}
-                        onMouseUpInput={(inputIndex: number) => props.onInputMouseUp(index(), inputIndex)}
-                        onClickOutside={() => {
-                            if (index() === selected()) setSelected(null);
-                        }}
-                        onClickDelete={() => {
-                            setSelected(null);
-                            props.onNodeDelete(node.id);
-                        }}
-                    />
-                )}
-            </For>
+        <div
+            ref={scene}
+            class={styles.main}
+            style={{ cursor: panning() !== null ? "grabbing" : "inherit" }}
+            onPointerDown={handleOnPointerDownScene}
+            onPointerMove={handleOnPointerMoveScene}
+            onPointerUp={handleOnPointerUpScene}
+            onPointerCancel={handleOnPointerCancelScene}
+        >
+            <div
+                class={styles.nodes}
+                style={{ transform: `translate(${props.viewport.x}px, ${props.viewport.y}px) scale(${props.viewport.zoom})` }}
+            >
+                <For each={props.nodes}>
+                    {(node: NodeProps, index: Accessor<number>) => (
+                        <Show when={props.isNodeVisible(index())}>
+                            <NodeComponent
+                                id={node.id}
+                                type={node.type ? props.nodeTypes?.[node.type] : undefined}
+                                data={node.data}
+                                x={props.nodesPositions[index()].x}
+                                y={props.nodesPositions[index()].y}
+                                selected={props.selectedNodes.includes(node.id)}
+                                direction={props.direction}
+                                actions={props.interactive ? node.actions : undefined}
+                                label={node.data.label}
+                                content={node.data.content}
+                                color={node.color}
+                                inputs={node.inputs}
+                                outputs={node.outputs}
+                                onPointerDown={(event: PointerEvent) => handleOnPointerDownNode(index(), event)}
+                                onNodeMount={(
+                                    inputs: { offset: { x: number; y: number }; side: PortSide }[],
+                                    outputs: { offset: { x: number; y: number }; side: PortSide }[],
+                                    dimensions: { width: number; height: number }
+                                ) =>
+                                    props.onNodeMount({
+                                        nodeIndex: index(),
+                                        inputs: toPortOffsets(index(), inputs),
+                                        outputs: toPortOffsets(index(), outputs),
+                                        dimensions,
+                                    })
+                                }
+                                onPointerDownOutput={(outputIndex: number, event: PointerEvent) =>
+                                    handleOnPointerDownOutput(index(), outputIndex, event)
+                                }
+                                inputStatus={(inputIndex: number) => props.inputStatus(index(), inputIndex)}
+                                onClickDelete={() => props.onNodeDelete(node.id)}
+                            />
+                        </Show>
+                    )}
+                </For>
+            </div>
+            {getSelectionRect() !== null && (
+                <div
+                    class={styles.selection}
+                    style={{
+                        left: `${getSelectionRect()?.x}px`,
+                        top: `${getSelectionRect()?.y}px`,
+                        width: `${getSelectionRect()?.width}px`,
+                        height: `${getSelectionRect()?.height}px`,
+                    }}
+                />
+            )}
         </div>
     );
 };
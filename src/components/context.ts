@@ -0,0 +1,35 @@
+import { Accessor, createContext, useContext } from "solid-js";
+import type { SolidFlowInstance } from ".";
+import { Dimensions, NodeData, Position, Viewport } from "../graph/types";
+
+// State shared with the components rendered as children of the flow, such as
+// the minimap
+export interface FlowContextValue {
+  instance: SolidFlowInstance;
+  viewport: Accessor<Viewport>;
+  setViewport: (viewport: Viewport) => void;
+  canvasSize: Accessor<Dimensions>;
+  nodes: NodeData[];
+  nodesPositions: Position[];
+  nodesDimensions: Accessor<Dimensions[]>;
+  // Off when the flow is locked: nodes can't be dragged, connected or deleted
+  interactive: Accessor<boolean>;
+  setInteractive: (interactive: boolean) => void;
+  // Set by the Background component, which takes the place of the default dots
+  setHasBackground: (hasBackground: boolean) => void;
+}
+
+// Corner of the canvas where panels such as the minimap are placed
+export type PanelPosition =
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
+export const FlowContext = createContext<FlowContextValue>();
+
+export function useSolidFlow(): FlowContextValue {
+  const context = useContext(FlowContext);
+  if (!context) throw new Error("useSolidFlow must be used inside SolidFlow");
+  return context;
+}
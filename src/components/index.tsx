@@ -1,124 +1,666 @@
-import { Component, createEffect, createSignal } from "solid-js";
-import { createStore, produce } from "solid-js/store";
-import EdgesBoard from "./EdgesBoard";
+import {
+  batch,
+  Component,
+  createEffect,
+  createMemo,
+  createSignal,
+  JSX,
+  on,
+  onCleanup,
+  onMount,
+  untrack,
+} from "solid-js";
+import { createStore, produce, reconcile } from "solid-js/store";
+import EdgesBoard, { EdgeMarker } from "./EdgesBoard";
 import NodesBoard from "./NodesBoard";
+import ConnectMenu from "./ConnectMenu";
+import { FlowContext, FlowContextValue } from "./context";
+import { NodeTypeProps } from "./NodeComponent";
+import { EdgeTypeProps } from "./EdgeComponent";
 import styles from "./styles.module.css";
 import {
+  Dimensions,
   EdgesActive,
   EdgesNodes,
   EdgesPositions,
   NodeData,
+  NodeOffsets,
+  PortSide,
   Position,
+  Rect,
   Vector,
+  Viewport,
 } from "../graph/types";
-import { convertToLayeredGraph, getEdgeId } from "../graph/utils";
+import {
+  convertToLayeredGraph,
+  getEdgeId,
+  getEdgesPositions,
+  defaultGrid,
+  getPortSide,
+  snapToGrid,
+} from "../graph/utils";
+import {
+  diffGraph,
+  getDanglingEdges,
+  isPositionEcho,
+} from "../graph/diff";
+import { computeLayout, Layout, LayoutOptions } from "../graph/layout";
+import { createsCycle } from "../graph/algorithms";
+import {
+  applyEdgeChanges,
+  applyNodeChanges,
+  EdgeChange,
+  getEdgeChanges,
+  getNodeChanges,
+  NodeChange,
+} from "../graph/changes";
+import { ClipboardData, copyNodes, pasteNodes } from "../graph/clipboard";
+import {
+  deserializeFlow,
+  FlowMigrations,
+  FlowObject,
+  NodeContentBuilders,
+  serializeFlow,
+} from "../graph/serialization";
+import {
+  Connection,
+  isConnectionAllowed,
+  PortDefinition,
+} from "../graph/connections";
+import {
+  createHistory,
+  History,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+} from "../graph/history";
+import {
+  defaultKeyBindings,
+  getKeyAction,
+  getNudgeDelta,
+  isEditableTarget,
+  KeyBindings,
+} from "../graph/keyboard";
+import {
+  getEdgesInside,
+  getNodesInside,
+  isSameSelection,
+} from "../graph/selection";
+import {
+  clampZoom,
+  expandRect,
+  getNodesBounds,
+  getViewportForBounds,
+  getViewportForCenter,
+  getViewportRect,
+  isEdgeIntersecting,
+  isNodeIntersecting,
+  zoomViewportAt,
+} from "../graph/viewport";
+
+export type { HandleProps, NodeTypeProps } from "./NodeComponent";
+export type { EdgeTypeProps } from "./EdgeComponent";
+export type { EdgeMarker } from "./EdgesBoard";
 
 export interface NodeProps {
   id: string;
+  type?: string;
   position: { x: number; y: number };
-  data: { label?: string; content: any };
+  // Fields other than `content` are kept when the flow is saved with toObject
+  data: { label?: string; content: any; [key: string]: any };
   inputs: number;
   outputs: number;
+  color?: string;
   actions?: { delete: boolean };
+  selected?: boolean;
+  // Measured size of the node, filled in by `dimensions` changes
+  dimensions?: Dimensions;
+  ports?: { inputs?: PortDefinition[]; outputs?: PortDefinition[] };
 }
 
 export interface EdgeProps {
   id: string;
+  type?: string;
   sourceNode: string;
   targetNode: string;
   sourceOutput: number;
   targetInput: number;
+  label?: JSX.Element;
+  labelStyle?: JSX.CSSProperties;
+  markerStart?: EdgeMarker | "arrow" | "arrowclosed";
+  markerEnd?: EdgeMarker | "arrow" | "arrowclosed";
+  style?: JSX.CSSProperties;
+  class?: string;
+  animated?: boolean;
+  selected?: boolean;
+}
+
+// Node created from the menu shown when a connection is dropped on the canvas
+export interface ConnectMenuItem {
+  label: string;
+  createNode: (position: Position) => NodeProps;
+}
+
+export interface ConnectEnd {
+  sourceNodeId: string;
+  sourceOutput: number;
+  position: Position;
+}
+
+export interface Selection {
+  nodes: string[];
+  edges: string[];
+}
+
+export interface SolidFlowInstance {
+  fitView: (options?: { padding?: number; nodes?: string[] }) => void;
+  setCenter: (x: number, y: number, zoom?: number) => void;
+  zoomIn: () => void;
+  zoomOut: () => void;
+  getViewport: () => Viewport;
+  setViewport: (viewport: Viewport) => void;
+  layout: (layout?: Layout) => void;
+  getSelection: () => Selection;
+  setSelection: (selection: Partial<Selection>) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  copy: () => void;
+  paste: (position?: Position) => void;
+  duplicate: () => void;
+  toObject: () => FlowObject;
+  fromObject: (object: FlowObject) => void;
+}
+
+interface Snapshot {
+  nodes: NodeProps[];
+  edges: EdgeProps[];
 }
 
 interface Props {
+  ref?: SolidFlowInstance | ((instance: SolidFlowInstance) => void);
   nodes: NodeProps[];
   edges: EdgeProps[];
-  onNodesChange: (newNodes: NodeProps[]) => void;
-  onEdgesChange: (newEdges: EdgeProps[]) => void;
+  onNodesChange: (
+    newNodes: NodeProps[],
+    changes: NodeChange<NodeProps>[]
+  ) => void;
+  onEdgesChange: (
+    newEdges: EdgeProps[],
+    changes: EdgeChange<EdgeProps>[]
+  ) => void;
   height: string;
   width: string;
+  minZoom?: number;
+  maxZoom?: number;
+  snapToGrid?: boolean;
+  snapGrid?: [number, number];
+  // Static dots drawn behind the canvas, left out when false or when a Background is rendered
+  defaultBackground?: boolean;
+  onlyRenderVisibleElements?: boolean;
+  viewport?: Viewport;
+  onViewportChange?: (viewport: Viewport) => void;
+  onSelectionChange?: (selection: {
+    nodes: NodeProps[];
+    edges: EdgeProps[];
+  }) => void;
+  layout?: Layout;
+  layoutOptions?: LayoutOptions;
+  nodeTypes?: { [type: string]: Component<NodeTypeProps> };
+  edgeTypes?: { [type: string]: Component<EdgeTypeProps> };
+  isValidConnection?: (connection: Connection) => boolean;
+  acyclic?: boolean;
+  deleteEdgeOnDrop?: boolean;
+  onConnectEnd?: (event: MouseEvent, connection: ConnectEnd) => void;
+  connectMenu?: ConnectMenuItem[];
+  keyBindings?: KeyBindings | false;
+  historyDepth?: number;
+  transformPastedData?: (
+    data: NodeProps["data"],
+    node: NodeProps
+  ) => NodeProps["data"];
+  nodeContentBuilders?: NodeContentBuilders;
+  migrations?: FlowMigrations;
+  children?: JSX.Element;
 }
 
 const FlowChart: Component<Props> = (props: Props) => {
   const {
     initNodesPositions,
     initNodesData,
+    initNodesDimensions,
     initNodesOffsets,
     initEdgesNodes,
     initEdgesPositions,
     initEdgesActives,
-  } = convertToLayeredGraph(props.nodes, props.edges);
+  } = convertToLayeredGraph(
+    props.nodes,
+    props.edges,
+    props.layout,
+    props.layoutOptions
+  );
 
   const [edgesNodes, setEdgesNodes] = createSignal<EdgesNodes>(initEdgesNodes);
+  // A store, so only the edges whose positions change are drawn again
   const [edgesPositions, setEdgesPositions] =
-    createSignal<EdgesPositions>(initEdgesPositions);
-  const [edgesActives, setEdgesActives] =
-    createSignal<EdgesActive>(initEdgesActives);
+    createStore<EdgesPositions>(initEdgesPositions);
+  const [edgesActives, setEdgesActives] = createSignal<EdgesActive>(
+    props.onlyRenderVisibleElements
+      ? Object.keys(initEdgesPositions).reduce(
+          (acc: EdgesActive, edgeId: string) => {
+            acc[edgeId] = true;
+            return acc;
+          },
+          {}
+        )
+      : initEdgesActives
+  );
 
+  // A store as well, so only the nodes that moved are drawn again
   const [nodesPositions, setNodesPositions] =
-    createSignal<Position[]>(initNodesPositions);
+    createStore<Position[]>(initNodesPositions);
   const [nodesData, setNodesData] = createStore<NodeData[]>(initNodesData);
+  const [nodesDimensions, setNodesDimensions] =
+    createSignal<Dimensions[]>(initNodesDimensions);
   const [nodesOffsets, setNodesOffsets] =
-    createStore<
-      { inputs: { offset: Position }[]; outputs: { offset: Position }[] }[]
-    >(initNodesOffsets);
+    createStore<NodeOffsets[]>(initNodesOffsets);
+
+  const [viewport, setViewport] = createSignal<Viewport>(
+    props.viewport ?? { x: 0, y: 0, zoom: 1 }
+  );
 
   const [clickedDelta, setClickedDelta] = createSignal<Position>({
     x: 0,
     y: 0,
   });
+  // Edge being drawn, or an existing edge being reconnected with the end
+  // of it that is dragged
   const [newEdge, setNewEdge] = createSignal<{
     position: Vector;
     sourceNode: number;
     sourceOutput: number;
+    sourceSide: PortSide;
+    targetSide?: PortSide;
+    reconnect?: { edgeId: string; end: "source" | "target" };
   } | null>(null);
 
-  let prevEdgesRef = props.edges;
-  createEffect(() => {
-    const nextNodesLength = props.nodes.length;
-    const prevNodesLength = nodesData.length;
-    const currentEdgesRef = props.edges;
-
-    // Rebuild if node count changed OR edge array reference changed
-    if (nextNodesLength !== prevNodesLength || currentEdgesRef !== prevEdgesRef) {
-      const {
-        initNodesPositions,
-        initNodesData,
-        initNodesOffsets,
-        initEdgesNodes,
-        initEdgesPositions,
-        initEdgesActives,
-      } = convertToLayeredGraph(props.nodes, currentEdgesRef);
-
-      setEdgesNodes(initEdgesNodes);
-      setEdgesPositions(initEdgesPositions);
-      setEdgesActives(initEdgesActives);
-
-      setNodesPositions(initNodesPositions);
-      setNodesData(initNodesData);
-      setNodesOffsets(initNodesOffsets);
-      prevEdgesRef = currentEdgesRef;
+  // Where a connection was dropped, while the menu to create a node is open
+  const [connectMenu, setConnectMenu] = createSignal<ConnectEnd | null>(null);
+
+  // Port the edge being drawn starts from, it doesn't change while dragging.
+  // Inputs aren't candidates while the source of an edge is reconnected.
+  const connectionSource = createMemo(
+    () => {
+      const edge = newEdge();
+      if (edge === null || edge.reconnect?.end === "source") return null;
+      return {
+        nodeIndex: edge.sourceNode,
+        outputIndex: edge.sourceOutput,
+        ignoredEdge: edge.reconnect?.edgeId,
+      };
+    },
+    undefined,
+    {
+      equals: (prev, next) =>
+        prev?.nodeIndex === next?.nodeIndex &&
+        prev?.outputIndex === next?.outputIndex &&
+        prev?.ignoredEdge === next?.ignoredEdge,
     }
+  );
+
+  const [selectedNodes, setSelectedNodes] = createSignal<string[]>(
+    getPropsSelection().nodes,
+    { equals: isSameSelection }
+  );
+  const [selectedEdges, setSelectedEdges] = createSignal<string[]>(
+    getPropsSelection().edges,
+    { equals: isSameSelection }
+  );
+
+  function getPropsSelection(): Selection {
+    return {
+      nodes: props.nodes
+        .filter((node: NodeProps) => node.selected)
+        .map((node: NodeProps) => node.id),
+      edges: props.edges
+        .filter((edge: EdgeProps) => edge.selected)
+        .map((edge: EdgeProps) => edge.id),
+    };
+  }
+
+  const [history, setHistory] = createSignal<History<Snapshot>>(
+    createHistory()
+  );
+  // Nodes being dragged, the drag is recorded in the history on its first move
+  let draggedNodes: string[] = [];
+
+  let clipboard: ClipboardData<NodeProps, EdgeProps> | null = null;
+  // Last position of the mouse over the canvas, in graph coordinates
+  let cursor: Position | null = null;
+  // Switched off by the lock of the controls, the flow can then only be viewed
+  const [interactive, setInteractive] = createSignal(true);
+  const [hasBackground, setHasBackground] = createSignal(false);
+
+  function getDirection() {
+    return props.layoutOptions?.rankdir ?? "LR";
+  }
+
+  const edgesData = createMemo(() =>
+    props.edges.reduce((acc: { [id: string]: EdgeProps }, edge: EdgeProps) => {
+      acc[edge.id] = edge;
+      return acc;
+    }, {})
+  );
+
+  // Index of each node in the arrays above, only computed again when nodes are
+  // added, removed or reordered
+  const nodesIndexes = createMemo(
+    () =>
+      new Map(
+        nodesData.map((node: NodeData, index: number) => [node.id, index])
+      )
+  );
+
+  // Sides of the nodes an edge leaves from and arrives at, each edge only
+  // reads the ports it is attached to
+  function getEdgeSides(edgeId: string) {
+    const edge = edgesNodes()[edgeId];
+    const source = edge ? nodesIndexes().get(edge.outNodeId) : undefined;
+    const target = edge ? nodesIndexes().get(edge.inNodeId) : undefined;
+    return {
+      source:
+        (source !== undefined &&
+          nodesOffsets[source]?.outputs[edge.outputIndex]?.side) ||
+        getPortSide(getDirection(), "output"),
+      target:
+        (target !== undefined &&
+          nodesOffsets[target]?.inputs[edge.inputIndex]?.side) ||
+        getPortSide(getDirection(), "input"),
+    };
+  }
+
+  // The first layout uses estimated sizes, run it again once every node is measured.
+  // Nodes out of view are never measured when only visible elements are rendered.
+  const measuredNodes = new Set<string>();
+  let layoutPending = isAutoLayout() && !props.onlyRenderVisibleElements;
+
+  // Nodes out of view aren't mounted when only visible elements are rendered, their edges
+  // are drawn from estimated port positions until they are
+  function getMountedNodes(nodes: NodeProps[]) {
+    return props.onlyRenderVisibleElements
+      ? new Set(nodes.map((node: NodeProps) => node.id))
+      : measuredNodes;
+  }
+
+  function isAutoLayout() {
+    return props.layout !== undefined && props.layout !== "none";
+  }
+
+  // Apply node and edge changes in place, keyed by id, so mounted nodes keep their state.
+  // Every node field is read, down to each key of `data`, so nodes updated in place are
+  // picked up as well. `selected` is synced on its own and `dimensions` comes from the
+  // flow itself; edges only need their ports here, the rest is read by `edgesData`.
+  // Nothing is built along the way, this runs again on every move of a drag.
+  function trackGraph() {
+    const track = (..._values: any[]) => {};
+    props.nodes.forEach((node: NodeProps) => {
+      track(node.id, node.type, node.position.x, node.position.y, node.data);
+      for (const key in node.data) track(node.data[key]);
+      track(node.inputs, node.outputs, node.color, node.actions?.delete);
+      [node.ports?.inputs, node.ports?.outputs].forEach(
+        (ports?: PortDefinition[]) =>
+          ports?.forEach((port: PortDefinition) =>
+            track(port.dataType, port.maxConnections)
+          )
+      );
+    });
+    props.edges.forEach((edge: EdgeProps) =>
+      track(
+        edge.id,
+        edge.sourceNode,
+        edge.sourceOutput,
+        edge.targetNode,
+        edge.targetInput
+      )
+    );
+  }
+
+  function getPropsPositions(nodes: NodeProps[]) {
+    return new Map(
+      nodes.map((node: NodeProps) => [node.id, { ...node.position }])
+    );
+  }
+
+  let prevPositions = getPropsPositions(props.nodes);
+  createEffect(
+    on(
+      trackGraph,
+      () =>
+        untrack(() => {
+          const nextNodes = props.nodes;
+          // The parent echoing the position changes of a drag has nothing to apply
+          if (
+            isPositionEcho(
+              {
+                nodesPositions,
+                nodesData,
+                edgesNodes: edgesNodes(),
+              },
+              prevPositions,
+              nextNodes,
+              props.edges
+            )
+          ) {
+            prevPositions = getPropsPositions(nextNodes);
+            return;
+          }
+
+          const danglingEdges = getDanglingEdges(nextNodes, props.edges);
+          const nextEdges = props.edges.filter(
+            (edge: EdgeProps) => !danglingEdges.includes(edge.id)
+          );
+          const next = diffGraph(
+            {
+              nodesPositions,
+              nodesData,
+              nodesDimensions: nodesDimensions(),
+              nodesOffsets,
+              edgesNodes: edgesNodes(),
+              edgesPositions,
+              edgesActives: edgesActives(),
+            },
+            prevPositions,
+            nextNodes,
+            nextEdges,
+            getMountedNodes(nextNodes),
+            props.layoutOptions
+          );
+          prevPositions = getPropsPositions(nextNodes);
+
+          const nextIds = new Set(nextNodes.map((node: NodeProps) => node.id));
+          measuredNodes.forEach((id: string) => {
+            if (!nextIds.has(id)) measuredNodes.delete(id);
+          });
+          const nextEdgesIds = new Set(
+            nextEdges.map((edge: EdgeProps) => edge.id)
+          );
+
+          batch(() => {
+            setSelectedNodes((prev: string[]) =>
+              prev.filter((id: string) => nextIds.has(id))
+            );
+            setSelectedEdges((prev: string[]) =>
+              prev.filter((id: string) => nextEdgesIds.has(id))
+            );
+
+            if (next.edgesNodes) setEdgesNodes(next.edgesNodes);
+            if (next.edgesActives) setEdgesActives(next.edgesActives);
+            if (next.removedEdgesPositions.length > 0)
+              setEdgesPositions(
+                produce((positions: EdgesPositions) =>
+                  next.removedEdgesPositions.forEach(
+                    (edgeId: string) => delete positions[edgeId]
+                  )
+                )
+              );
+            Object.keys(next.edgesPositions).forEach((edgeId: string) =>
+              setEdgesPositions(edgeId, next.edgesPositions[edgeId])
+            );
+
+            if (next.nodes) {
+              setNodesPositions(reconcile(next.nodes.positions));
+              setNodesDimensions(next.nodes.dimensions);
+              setNodesOffsets(reconcile(next.nodes.offsets));
+              setNodesData(reconcile(next.nodes.data, { key: "id" }));
+            }
+            next.changedNodes.forEach((node) => {
+              if (node.position) setNodesPositions(node.index, node.position);
+              setNodesData(node.index, reconcile(node.data));
+            });
+          });
+
+          // Edges pointing at ports that were removed are dropped
+          emitEdgesChange(
+            danglingEdges.map((id: string) => ({ type: "remove", id }))
+          );
+        }),
+      { defer: true }
+    )
+  );
+
+  createEffect(() => {
+    if (props.viewport) setViewport({ ...props.viewport });
   });
 
+  // The `selected` flags only take over when the parent changes them, nodes
+  // emitted back without touching them keep the current selection
+  const propsSelection = createMemo(getPropsSelection, undefined, {
+    equals: (prev: Selection, next: Selection) =>
+      isSameSelection(prev.nodes, next.nodes) &&
+      isSameSelection(prev.edges, next.edges),
+  });
+  createEffect(
+    on(
+      propsSelection,
+      (selection: Selection) =>
+        batch(() => {
+          setSelectedNodes(selection.nodes);
+          setSelectedEdges(selection.edges);
+        }),
+      { defer: true }
+    )
+  );
+
+  createEffect(
+    on(
+      [selectedNodes, selectedEdges],
+      ([nodes, edges]: string[][]) =>
+        untrack(() => {
+          // Only the flags that differ are sent, selections coming from the
+          // props don't echo back
+          emitNodesChange(
+            props.nodes
+              .filter(
+                (node: NodeProps) => !!node.selected !== nodes.includes(node.id)
+              )
+              .map((node: NodeProps) => ({
+                type: "select",
+                id: node.id,
+                selected: nodes.includes(node.id),
+              }))
+          );
+          emitEdgesChange(
+            props.edges
+              .filter(
+                (edge: EdgeProps) => !!edge.selected !== edges.includes(edge.id)
+              )
+              .map((edge: EdgeProps) => ({
+                type: "select",
+                id: edge.id,
+                selected: edges.includes(edge.id),
+              }))
+          );
+
+          if (!props.onSelectionChange) return;
+          props.onSelectionChange({
+            nodes: props.nodes.filter((node: NodeProps) =>
+              nodes.includes(node.id)
+            ),
+            edges: props.edges.filter((edge: EdgeProps) =>
+              edges.includes(edge.id)
+            ),
+          });
+        }),
+      { defer: true }
+    )
+  );
+
+  // CHANGES
+  function emitNodesChange(changes: NodeChange<NodeProps>[]) {
+    if (changes.length === 0) return;
+    props.onNodesChange(applyNodeChanges(changes, props.nodes), changes);
+  }
+
+  function emitEdgesChange(changes: EdgeChange<EdgeProps>[]) {
+    if (changes.length === 0) return;
+    props.onEdgesChange(applyEdgeChanges(changes, props.edges), changes);
+  }
+
+  function getPositionChanges(
+    nodeIds: string[],
+    dragging: boolean
+  ): NodeChange<NodeProps>[] {
+    return nodeIds
+      .filter((id: string) => nodesIndexes().has(id))
+      .map((id: string) => ({
+        type: "position",
+        id,
+        position: { ...nodesPositions[nodesIndexes().get(id)!] },
+        dragging,
+      }));
+  }
+
+  // Nodes mounting together are reported in a single change
+  let pendingDimensions: NodeChange<NodeProps>[] = [];
+
+  function queueDimensionsChange(nodeId: string, dimensions: Dimensions) {
+    const node = props.nodes.find((node: NodeProps) => node.id === nodeId);
+    if (
+      !node ||
+      (node.dimensions?.width === dimensions.width &&
+        node.dimensions?.height === dimensions.height)
+    )
+      return;
+    if (pendingDimensions.length === 0)
+      queueMicrotask(() => {
+        const changes = pendingDimensions;
+        pendingDimensions = [];
+        emitNodesChange(changes);
+      });
+    pendingDimensions.push({ type: "dimensions", id: nodeId, dimensions });
+  }
+
   // NODE HANDLERS
   function handleOnNodeMount(values: {
     nodeIndex: number;
-    inputs: { offset: { x: number; y: number } }[];
-    outputs: { offset: { x: number; y: number } }[];
+    inputs: { offset: Position; side: PortSide }[];
+    outputs: { offset: Position; side: PortSide }[];
+    dimensions: Dimensions;
   }) {
+    setNodesDimensions((prev: Dimensions[]) => {
+      const next = [...prev];
+      next[values.nodeIndex] = values.dimensions;
+      return next;
+    });
+    measuredNodes.add(nodesData[values.nodeIndex].id);
+    queueDimensionsChange(nodesData[values.nodeIndex].id, values.dimensions);
+
     setNodesOffsets(
-      produce(
-        (
-          nodesOffsets: {
-            inputs: { offset: { x: number; y: number } }[];
-            outputs: { offset: { x: number; y: number } }[];
-          }[]
-        ) => {
-          nodesOffsets[values.nodeIndex].inputs = values.inputs;
-          nodesOffsets[values.nodeIndex].outputs = values.outputs;
-        }
-      )
+      produce((nodesOffsets: NodeOffsets[]) => {
+        nodesOffsets[values.nodeIndex].inputs = values.inputs;
+        nodesOffsets[values.nodeIndex].outputs = values.outputs;
+      })
     );
 
     setEdgesActives((prev: EdgesActive) => {
@@ -132,103 +674,234 @@ const FlowChart: Component<Props> = (props: Props) => {
       return next;
     });
 
-    setEdgesPositions((prev: EdgesPositions) => {
-      const next = { ...prev };
+    batch(() => {
       nodesData[values.nodeIndex].edgesIn.map((edgeId: string) => {
-        next[edgeId] = {
-          x0: prev[edgeId]?.x0 || 0,
-          y0: prev[edgeId]?.y0 || 0,
+        setEdgesPositions(edgeId, {
+          x0: edgesPositions[edgeId]?.x0 || 0,
+          y0: edgesPositions[edgeId]?.y0 || 0,
           x1:
-            nodesPositions()[values.nodeIndex].x +
+            nodesPositions[values.nodeIndex].x +
             values.inputs[edgesNodes()[edgeId].inputIndex].offset.x,
           y1:
-            nodesPositions()[values.nodeIndex].y +
+            nodesPositions[values.nodeIndex].y +
             values.inputs[edgesNodes()[edgeId].inputIndex].offset.y,
-        };
+        });
       });
       nodesData[values.nodeIndex].edgesOut.map((edgeId: string) => {
-        next[edgeId] = {
+        setEdgesPositions(edgeId, {
           x0:
-            nodesPositions()[values.nodeIndex].x +
+            nodesPositions[values.nodeIndex].x +
             values.outputs[edgesNodes()[edgeId].outputIndex].offset.x,
           y0:
-            nodesPositions()[values.nodeIndex].y +
+            nodesPositions[values.nodeIndex].y +
             values.outputs[edgesNodes()[edgeId].outputIndex].offset.y,
-          x1: prev[edgeId]?.x1 || 0,
-          y1: prev[edgeId]?.y1 || 0,
-        };
+          x1: edgesPositions[edgeId]?.x1 || 0,
+          y1: edgesPositions[edgeId]?.y1 || 0,
+        });
       });
-      return next;
     });
+
+    if (layoutPending && measuredNodes.size === nodesData.length) {
+      layoutPending = false;
+      setNodesPositions(reconcile(getLayoutPositions(props.layout as Layout)));
+      refreshEdgesPositions();
+    }
   }
 
-  function handleOnNodePress(deltaX: number, deltaY: number) {
-    setClickedDelta({ x: deltaX, y: deltaY });
+  function refreshEdgesPositions() {
+    pendingEdgesPositions = {};
+    setEdgesPositions(
+      getEdgesPositions(
+        edgesNodes(),
+        nodesIndexes(),
+        nodesPositions,
+        nodesOffsets
+      )
+    );
   }
 
-  function handleOnNodeMove(nodeIndex: number, x: number, y: number) {
-    setNodesPositions((prev: Position[]) => {
-      const next = [...prev];
-      next[nodeIndex].x = x - clickedDelta().x;
-      next[nodeIndex].y = y - clickedDelta().y;
-      return next;
+  // Edges moved along with dragged nodes are written once per frame
+  let pendingEdgesPositions: EdgesPositions = {};
+  let edgesFrame: number | null = null;
+
+  function queueEdgesPositions(positions: EdgesPositions) {
+    Object.assign(pendingEdgesPositions, positions);
+    if (edgesFrame === null)
+      edgesFrame = requestAnimationFrame(flushEdgesPositions);
+  }
+
+  function flushEdgesPositions() {
+    const positions = pendingEdgesPositions;
+    pendingEdgesPositions = {};
+    edgesFrame = null;
+    batch(() =>
+      Object.keys(positions).forEach((edgeId: string) => {
+        if (edgesNodes()[edgeId]) setEdgesPositions(edgeId, positions[edgeId]);
+      })
+    );
+  }
+
+  onCleanup(() => {
+    if (edgesFrame !== null) cancelAnimationFrame(edgesFrame);
+  });
+
+  function getLayoutPositions(layout: Layout) {
+    return computeLayout(
+      layout,
+      nodesData.map((node: NodeData, index: number) => ({
+        id: node.id,
+        position: nodesPositions[index],
+        ...nodesDimensions()[index],
+      })),
+      Object.keys(edgesNodes())
+        .filter((edgeId: string) => edgesActives()[edgeId])
+        .map((edgeId: string) => ({
+          sourceNode: edgesNodes()[edgeId].outNodeId,
+          targetNode: edgesNodes()[edgeId].inNodeId,
+        })),
+      props.layoutOptions
+    );
+  }
+
+  function handleOnLayout(
+    layout: Layout = props.layout && props.layout !== "none"
+      ? props.layout
+      : "dagre"
+  ) {
+    recordHistory();
+    setNodesPositions(reconcile(getLayoutPositions(layout)));
+    refreshEdgesPositions();
+    emitNodesChange(
+      getPositionChanges(
+        nodesData.map((node: NodeData) => node.id),
+        false
+      )
+    );
+  }
+
+  function getNodesWithPositions(positions: Position[]) {
+    return props.nodes.map((node: NodeProps) => {
+      const index = nodesIndexes().get(node.id);
+      return index === undefined
+        ? node
+        : { ...node, position: { ...positions[index] } };
     });
+  }
 
-    setEdgesPositions((prev: EdgesPositions) => {
-      const next = { ...prev };
-      nodesData[nodeIndex].edgesIn.map((edgeId: string) => {
-        if (edgesActives()[edgeId])
-          next[edgeId] = {
-            x0: prev[edgeId]?.x0 || 0,
-            y0: prev[edgeId]?.y0 || 0,
-            x1:
-              x +
-              nodesOffsets[nodeIndex].inputs[edgesNodes()[edgeId].inputIndex]
-                .offset.x -
-              clickedDelta().x,
-            y1:
-              y +
-              nodesOffsets[nodeIndex].inputs[edgesNodes()[edgeId].inputIndex]
-                .offset.y -
-              clickedDelta().y,
-          };
-      });
-      nodesData[nodeIndex].edgesOut.map((edgeId: string) => {
-        if (edgesActives()[edgeId])
-          next[edgeId] = {
-            x0:
-              x +
-              nodesOffsets[nodeIndex].outputs[edgesNodes()[edgeId].outputIndex]
-                .offset.x -
-              clickedDelta().x,
-            y0:
-              y +
-              nodesOffsets[nodeIndex].outputs[edgesNodes()[edgeId].outputIndex]
-                .offset.y -
-              clickedDelta().y,
-            x1: prev[edgeId]?.x1 || 0,
-            y1: prev[edgeId]?.y1 || 0,
-          };
+  // Shift, ctrl or cmd toggle the node, a plain press selects it alone unless
+  // it's already part of the selection, so the whole group can be dragged
+  function handleOnNodePress(
+    nodeIndex: number,
+    deltaX: number,
+    deltaY: number,
+    toggle: boolean
+  ) {
+    const nodeId = nodesData[nodeIndex].id;
+    if (toggle) {
+      setSelectedNodes((prev: string[]) =>
+        prev.includes(nodeId)
+          ? prev.filter((id: string) => id !== nodeId)
+          : [...prev, nodeId]
+      );
+    } else if (!selectedNodes().includes(nodeId)) {
+      batch(() => {
+        setSelectedNodes([nodeId]);
+        setSelectedEdges([]);
       });
-      return next;
+    }
+    setClickedDelta({ x: deltaX, y: deltaY });
+    draggedNodes = [];
+  }
+
+  // Positions are left as they are unless snapToGrid is on
+  function snapPosition(position: Position): Position {
+    return props.snapToGrid
+      ? snapToGrid(position, props.snapGrid ?? defaultGrid)
+      : position;
+  }
+
+  function handleOnNodeMove(nodeIndex: number, x: number, y: number) {
+    if (!interactive()) return;
+    // The grabbed node is snapped, the rest of the selection keeps its offsets
+    const position = snapPosition({
+      x: x - clickedDelta().x,
+      y: y - clickedDelta().y,
     });
+    const deltaX = position.x - nodesPositions[nodeIndex].x;
+    const deltaY = position.y - nodesPositions[nodeIndex].y;
+    if (deltaX === 0 && deltaY === 0) return;
+
+    if (draggedNodes.length === 0) recordHistory();
+    draggedNodes = selectedNodes().includes(nodesData[nodeIndex].id)
+      ? selectedNodes()
+      : [nodesData[nodeIndex].id];
+    moveNodes(draggedNodes, deltaX, deltaY);
+    emitNodesChange(getPositionChanges(draggedNodes, true));
   }
 
-  function handleOnNodeDelete(nodeId: string) {
-    const newNodes = props.nodes.filter(
-      (node: NodeProps) => node.id !== nodeId
+  // Move the given nodes along with the edges attached to them
+  function moveNodes(movedIds: string[], deltaX: number, deltaY: number) {
+    const indexes = movedIds
+      .map((id: string) => nodesIndexes().get(id))
+      .filter((index?: number) => index !== undefined) as number[];
+    batch(() =>
+      indexes.forEach((index: number) =>
+        setNodesPositions(index, {
+          x: nodesPositions[index].x + deltaX,
+          y: nodesPositions[index].y + deltaY,
+        })
+      )
     );
-    const newEdges = props.edges.filter(
-      (edge: EdgeProps) =>
-        edge.sourceNode !== nodeId && edge.targetNode !== nodeId
+
+    const movedEdges = indexes
+      .flatMap((index: number) => [
+        ...nodesData[index].edgesIn,
+        ...nodesData[index].edgesOut,
+      ])
+      .filter(
+        (edgeId: string) => edgesActives()[edgeId] && edgesNodes()[edgeId]
+      )
+      .reduce((acc: EdgesNodes, edgeId: string) => {
+        acc[edgeId] = edgesNodes()[edgeId];
+        return acc;
+      }, {});
+    queueEdgesPositions(
+      getEdgesPositions(
+        movedEdges,
+        nodesIndexes(),
+        nodesPositions,
+        nodesOffsets
+      )
+    );
+  }
+
+  function handleOnNodeDelete(nodeId: string) {
+    removeElements([nodeId], []);
+  }
+
+  // Remove nodes and edges, along with the edges attached to those nodes
+  function removeElements(nodeIds: string[], edgeIds: string[]) {
+    if (nodeIds.length === 0 && edgeIds.length === 0) return;
+    recordHistory();
+    emitEdgesChange(
+      props.edges
+        .filter(
+          (edge: EdgeProps) =>
+            edgeIds.includes(edge.id) ||
+            nodeIds.includes(edge.sourceNode) ||
+            nodeIds.includes(edge.targetNode)
+        )
+        .map((edge: EdgeProps) => ({ type: "remove", id: edge.id }))
     );
-    props.onEdgesChange(newEdges);
-    props.onNodesChange(newNodes);
+    emitNodesChange(nodeIds.map((id: string) => ({ type: "remove", id })));
   }
 
   function handleOnOutputMouseDown(nodeIndex: number, outputIndex: number) {
-    const nodePosition = nodesPositions()[nodeIndex];
-    const outputOffset = nodesOffsets[nodeIndex].outputs[outputIndex].offset;
+    if (!interactive()) return;
+    setSelectedEdges([]);
+    const nodePosition = nodesPositions[nodeIndex];
+    const output = nodesOffsets[nodeIndex].outputs[outputIndex];
+    const outputOffset = output.offset;
     setNewEdge({
       position: {
         x0: nodePosition.x + outputOffset.x,
@@ -238,11 +911,68 @@ const FlowChart: Component<Props> = (props: Props) => {
       },
       sourceNode: nodeIndex,
       sourceOutput: outputIndex,
+      sourceSide: output.side ?? getPortSide(getDirection(), "output"),
     });
   }
 
+  // An edge being reconnected is left out, it's replaced by the connection
+  function checkConnection(connection: Connection, ignoredEdge?: string) {
+    const otherEdgesNodes = { ...edgesNodes() };
+    if (ignoredEdge) delete otherEdgesNodes[ignoredEdge];
+    return (
+      isConnectionAllowed(
+        connection,
+        props.nodes,
+        props.edges.filter((edge: EdgeProps) => edge.id !== ignoredEdge)
+      ) &&
+      !(
+        props.acyclic &&
+        createsCycle(
+          connection.sourceNode,
+          connection.targetNode,
+          otherEdgesNodes
+        )
+      ) &&
+      (!props.isValidConnection || props.isValidConnection(connection))
+    );
+  }
+
+  function isValidNewConnection(nodeIndex: number, inputIndex: number) {
+    const source = connectionSource();
+    if (source === null) return false;
+    return checkConnection(
+      {
+        sourceNode: nodesData[source.nodeIndex].id,
+        sourceOutput: source.outputIndex,
+        targetNode: nodesData[nodeIndex].id,
+        targetInput: inputIndex,
+      },
+      source.ignoredEdge
+    );
+  }
+
+  // Inputs are highlighted or dimmed while an edge is being drawn
+  function getInputStatus(nodeIndex: number, inputIndex: number) {
+    if (connectionSource() === null) return null;
+    return isValidNewConnection(nodeIndex, inputIndex) ? "valid" : "invalid";
+  }
+
   function handleOnInputMouseUp(nodeIndex: number, inputIndex: number) {
-    if (newEdge()?.sourceNode === nodeIndex) {
+    const reconnect = newEdge()?.reconnect;
+    if (reconnect) {
+      if (reconnect.end === "target")
+        reconnectEdge(reconnect.edgeId, {
+          targetNode: nodesData[nodeIndex].id,
+          targetInput: inputIndex,
+        });
+      setNewEdge(null);
+      return;
+    }
+
+    if (
+      newEdge()?.sourceNode === nodeIndex ||
+      !isValidNewConnection(nodeIndex, inputIndex)
+    ) {
       setNewEdge(null);
       return;
     }
@@ -270,27 +1000,24 @@ const FlowChart: Component<Props> = (props: Props) => {
     if (inputEdges.includes(edgeId)) haveEdge = true;
 
     if (!haveEdge) {
-      setEdgesPositions((prev: EdgesPositions) => {
-        const next = { ...prev };
-        next[edgeId] = {
-          x0:
-            nodesPositions()[newEdge()?.sourceNode || 0].x +
-            nodesOffsets[newEdge()?.sourceNode || 0].outputs[
-              newEdge()?.sourceOutput || 0
-            ].offset.x,
-          y0:
-            nodesPositions()[newEdge()?.sourceNode || 0].y +
-            nodesOffsets[newEdge()?.sourceNode || 0].outputs[
-              newEdge()?.sourceOutput || 0
-            ].offset.y,
-          x1:
-            nodesPositions()[nodeIndex].x +
-            nodesOffsets[nodeIndex].inputs[inputIndex].offset.x,
-          y1:
-            nodesPositions()[nodeIndex].y +
-            nodesOffsets[nodeIndex].inputs[inputIndex].offset.y,
-        };
-        return next;
+      recordHistory();
+      setEdgesPositions(edgeId, {
+        x0:
+          nodesPositions[newEdge()?.sourceNode || 0].x +
+          nodesOffsets[newEdge()?.sourceNode || 0].outputs[
+            newEdge()?.sourceOutput || 0
+          ].offset.x,
+        y0:
+          nodesPositions[newEdge()?.sourceNode || 0].y +
+          nodesOffsets[newEdge()?.sourceNode || 0].outputs[
+            newEdge()?.sourceOutput || 0
+          ].offset.y,
+        x1:
+          nodesPositions[nodeIndex].x +
+          nodesOffsets[nodeIndex].inputs[inputIndex].offset.x,
+        y1:
+          nodesPositions[nodeIndex].y +
+          nodesOffsets[nodeIndex].inputs[inputIndex].offset.y,
       });
       setEdgesActives((prev: EdgesActive) => {
         const next = { ...prev };
@@ -316,48 +1043,557 @@ const FlowChart: Component<Props> = (props: Props) => {
           nodesData[nodeIndex].edgesIn.push(edgeId);
         })
       );
-      // Use local snapshot for callback to avoid signal timing issues
-      const allEdgesNodes = { ...edgesNodes(), [edgeId]: newEdgeNode };
-      const activeEdgesKeys = Object.keys(edgesActives());
-      const activeEdges: EdgeProps[] = [];
-      for (let i = 0; i < activeEdgesKeys.length; i++) {
-        if (edgesActives()[activeEdgesKeys[i]]) {
-          const edgeInfo = allEdgesNodes[activeEdgesKeys[i]];
-          if (!edgeInfo) continue;
-          activeEdges.push({
-            id: activeEdgesKeys[i],
-            sourceNode: edgeInfo.outNodeId,
-            sourceOutput: edgeInfo.outputIndex,
-            targetNode: edgeInfo.inNodeId,
-            targetInput: edgeInfo.inputIndex,
-          });
-        }
-      }
-      props.onEdgesChange(activeEdges);
+      emitEdgesChange([
+        {
+          type: "connect",
+          item: {
+            id: edgeId,
+            sourceNode: sourceNodeId,
+            sourceOutput: newEdgeNode.outputIndex,
+            targetNode: targetNodeId,
+            targetInput: inputIndex,
+          },
+        },
+      ]);
     }
     setNewEdge(null);
   }
 
-  function handleOnMouseUp() {
+  function handleOnOutputMouseUp(nodeIndex: number, outputIndex: number) {
+    const reconnect = newEdge()?.reconnect;
+    if (reconnect?.end !== "source") return;
+    reconnectEdge(reconnect.edgeId, {
+      sourceNode: nodesData[nodeIndex].id,
+      sourceOutput: outputIndex,
+    });
     setNewEdge(null);
   }
 
+  // Dragging an end of the selected edge moves it to another port
+  function handleOnReconnectStart(edgeId: string, end: "source" | "target") {
+    const edge = edgesNodes()[edgeId];
+    setNewEdge({
+      position: { ...edgesPositions[edgeId] },
+      sourceNode: nodesData.findIndex(
+        (node: NodeData) => node.id === edge.outNodeId
+      ),
+      sourceOutput: edge.outputIndex,
+      sourceSide: getEdgeSides(edgeId).source,
+      targetSide: getEdgeSides(edgeId).target,
+      reconnect: { edgeId, end },
+    });
+  }
+
+  function reconnectEdge(edgeId: string, ports: Partial<Connection>) {
+    const edge = props.edges.find((edge: EdgeProps) => edge.id === edgeId);
+    if (!edge) return;
+    const connection: Connection = {
+      sourceNode: ports.sourceNode ?? edge.sourceNode,
+      sourceOutput: ports.sourceOutput ?? edge.sourceOutput,
+      targetNode: ports.targetNode ?? edge.targetNode,
+      targetInput: ports.targetInput ?? edge.targetInput,
+    };
+    const newId = getEdgeId(
+      connection.sourceNode,
+      connection.sourceOutput,
+      connection.targetNode,
+      connection.targetInput
+    );
+    if (newId === edgeId || !checkConnection(connection, edgeId)) return;
+
+    recordHistory();
+    emitEdgesChange([
+      {
+        type: "reconnect",
+        id: edgeId,
+        item: { ...edge, ...connection, id: newId },
+      },
+    ]);
+    setSelectedEdges([newId]);
+  }
+
+  function handleOnMouseUp(
+    event: MouseEvent,
+    x: number,
+    y: number,
+    canvasDrop: boolean
+  ) {
+    // An edge being drawn or reconnected was dropped away from any input. A new
+    // edge only ends the connection on the empty canvas, not on a click of its
+    // output or a release over a node.
+    const edge = newEdge();
+    if (edge?.reconnect && props.deleteEdgeOnDrop)
+      removeElements([], [edge.reconnect.edgeId]);
+    if (edge && !edge.reconnect && canvasDrop) {
+      const connection: ConnectEnd = {
+        sourceNodeId: nodesData[edge.sourceNode].id,
+        sourceOutput: edge.sourceOutput,
+        position: { x, y },
+      };
+      if (props.onConnectEnd) props.onConnectEnd(event, connection);
+      if (props.connectMenu && props.connectMenu.length > 0)
+        setConnectMenu(connection);
+    }
+    setNewEdge(null);
+    if (draggedNodes.length > 0) {
+      emitNodesChange(getPositionChanges(draggedNodes, false));
+      draggedNodes = [];
+    }
+  }
+
   function handleOnMouseMove(x: number, y: number) {
-    if (newEdge() !== null)
-      setNewEdge({
-        position: {
-          x0: newEdge()?.position?.x0 || 0,
-          y0: newEdge()?.position?.y0 || 0,
-          x1: x,
-          y1: y,
+    cursor = { x, y };
+    const edge = newEdge();
+    if (edge === null) return;
+    setNewEdge({
+      ...edge,
+      position:
+        edge.reconnect?.end === "source"
+          ? { ...edge.position, x0: x, y0: y }
+          : { ...edge.position, x1: x, y1: y },
+    });
+  }
+
+  // Create the picked node and connect its first input to the dropped edge
+  function handleOnConnectMenuSelect(index: number) {
+    const menu = connectMenu();
+    const item = props.connectMenu?.[index];
+    setConnectMenu(null);
+    if (!menu || !item) return;
+
+    const node = item.createNode(snapPosition(menu.position));
+    recordHistory();
+    emitNodesChange([{ type: "add", item: node }]);
+
+    const connection: Connection = {
+      sourceNode: menu.sourceNodeId,
+      sourceOutput: menu.sourceOutput,
+      targetNode: node.id,
+      targetInput: 0,
+    };
+    if (node.inputs > 0 && checkConnection(connection))
+      emitEdgesChange([
+        {
+          type: "connect",
+          item: {
+            ...connection,
+            id: getEdgeId(
+              connection.sourceNode,
+              connection.sourceOutput,
+              connection.targetNode,
+              connection.targetInput
+            ),
+          },
         },
-        sourceNode: newEdge()?.sourceNode || 0,
-        sourceOutput: newEdge()?.sourceOutput || 0,
-      });
+      ]);
+    setSelectedNodes([node.id]);
+  }
+
+  // SELECTION HANDLERS
+  function handleOnSelectionBox(rect: Rect) {
+    batch(() => {
+      setSelectedNodes(
+        getNodesInside(
+          rect,
+          nodesData.map((node: NodeData) => node.id),
+          nodesPositions,
+          nodesDimensions()
+        )
+      );
+      setSelectedEdges(getEdgesInside(rect, edgesPositions, edgesActives()));
+    });
+  }
+
+  function handleOnSceneClick() {
+    setConnectMenu(null);
+    batch(() => {
+      setSelectedNodes([]);
+      setSelectedEdges([]);
+    });
+  }
+
+  // HISTORY
+  // Nodes carry their current position, drags are only kept internally
+  function getSnapshot(): Snapshot {
+    return {
+      nodes: getNodesWithPositions(nodesPositions),
+      edges: [...props.edges],
+    };
+  }
+
+  function recordHistory() {
+    setHistory((prev: History<Snapshot>) =>
+      pushHistory(prev, getSnapshot(), props.historyDepth ?? 100)
+    );
+  }
+
+  // Edges are removed before their nodes and added after them
+  function restoreSnapshot(snapshot: Snapshot) {
+    const edgeChanges = getEdgeChanges(props.edges, snapshot.edges);
+    emitEdgesChange(
+      edgeChanges.filter((change: EdgeChange<EdgeProps>) => change.type === "remove")
+    );
+    emitNodesChange(getNodeChanges(props.nodes, snapshot.nodes));
+    emitEdgesChange(
+      edgeChanges.filter((change: EdgeChange<EdgeProps>) => change.type !== "remove")
+    );
+    setPositionsFrom(snapshot.nodes);
+  }
+
+  // Positions the parent already had wouldn't be picked up as a change
+  function setPositionsFrom(nodes: NodeProps[]) {
+    const positions = new Map(
+      nodes.map((node: NodeProps) => [node.id, node.position])
+    );
+    setNodesPositions(
+      reconcile(
+        nodesData.map((node: NodeData, index: number) => ({
+          ...(positions.get(node.id) ?? nodesPositions[index]),
+        }))
+      )
+    );
+    refreshEdgesPositions();
+  }
+
+  function undo() {
+    const result = undoHistory(history(), getSnapshot());
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  }
+
+  function redo() {
+    const result = redoHistory(history(), getSnapshot());
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  }
+
+  // SERIALIZATION
+  function toObject() {
+    return serializeFlow(
+      getNodesWithPositions(nodesPositions),
+      props.edges,
+      viewport()
+    );
+  }
+
+  // The whole graph is replaced, nodes keeping their id stay mounted
+  function fromObject(object: FlowObject) {
+    const flow = deserializeFlow(object, {
+      builders: props.nodeContentBuilders,
+      migrations: props.migrations,
+    });
+    recordHistory();
+    emitEdgesChange(
+      props.edges.map((edge: EdgeProps) => ({ type: "remove", id: edge.id }))
+    );
+    emitNodesChange([
+      ...props.nodes.map(
+        (node: NodeProps): NodeChange<NodeProps> => ({
+          type: "remove",
+          id: node.id,
+        })
+      ),
+      ...flow.nodes.map(
+        (node: NodeProps): NodeChange<NodeProps> => ({
+          type: "add",
+          item: node,
+        })
+      ),
+    ]);
+    emitEdgesChange(
+      flow.edges.map((edge: EdgeProps) => ({ type: "add", item: edge }))
+    );
+    setPositionsFrom(flow.nodes);
+    updateViewport(flow.viewport);
+  }
+
+  // CLIPBOARD
+  function copy() {
+    if (selectedNodes().length === 0) return;
+    clipboard = copyNodes(
+      getNodesWithPositions(nodesPositions),
+      props.edges,
+      selectedNodes()
+    );
+  }
+
+  function insertNodes(
+    copied: ClipboardData<NodeProps, EdgeProps>,
+    options: { position?: Position; offset?: Position }
+  ) {
+    if (copied.nodes.length === 0) return;
+    const pasted = pasteNodes(
+      copied,
+      props.nodes.map((node: NodeProps) => node.id),
+      { ...options, transformData: props.transformPastedData }
+    );
+    pasted.nodes = pasted.nodes.map((node: NodeProps) => ({
+      ...node,
+      position: snapPosition(node.position),
+    }));
+    recordHistory();
+    emitNodesChange(
+      pasted.nodes.map((node: NodeProps) => ({ type: "add", item: node }))
+    );
+    emitEdgesChange(
+      pasted.edges.map((edge: EdgeProps) => ({ type: "add", item: edge }))
+    );
+
+    batch(() => {
+      setSelectedNodes(pasted.nodes.map((node: NodeProps) => node.id));
+      setSelectedEdges(pasted.edges.map((edge: EdgeProps) => edge.id));
+    });
   }
 
+  // The copied nodes are pasted under the mouse, or next to the originals
+  function paste(position: Position | undefined = cursor ?? undefined) {
+    if (clipboard) insertNodes(clipboard, { position });
+  }
+
+  function duplicate() {
+    insertNodes(
+      copyNodes(
+        getNodesWithPositions(nodesPositions),
+        props.edges,
+        selectedNodes()
+      ),
+      { offset: { x: 20, y: 20 } }
+    );
+  }
+
+  // KEYBOARD HANDLERS
+  function handleOnKeyDown(event: KeyboardEvent) {
+    if (props.keyBindings === false || isEditableTarget(event.target)) return;
+    const action = getKeyAction(event, {
+      ...defaultKeyBindings,
+      ...props.keyBindings,
+    });
+    if (action === null) return;
+    if (!interactive() && !["selectAll", "copy", "cancel"].includes(action))
+      return;
+    event.preventDefault();
+
+    switch (action) {
+      case "delete":
+        removeElements(selectedNodes(), selectedEdges());
+        break;
+      case "selectAll":
+        batch(() => {
+          setSelectedNodes(nodesData.map((node: NodeData) => node.id));
+          setSelectedEdges(
+            Object.keys(edgesActives()).filter(
+              (edgeId: string) => edgesActives()[edgeId]
+            )
+          );
+        });
+        break;
+      case "undo":
+        undo();
+        break;
+      case "copy":
+        copy();
+        break;
+      case "paste":
+        paste();
+        break;
+      case "duplicate":
+        duplicate();
+        break;
+      case "redo":
+        redo();
+        break;
+      case "cancel":
+        if (newEdge() !== null) setNewEdge(null);
+        else if (connectMenu() !== null) setConnectMenu(null);
+        else handleOnSceneClick();
+        break;
+      default: {
+        if (selectedNodes().length === 0) return;
+        recordHistory();
+        const delta = getNudgeDelta(action, event.shiftKey);
+        moveNodes(selectedNodes(), delta.x, delta.y);
+        emitNodesChange(getPositionChanges(selectedNodes(), false));
+      }
+    }
+  }
+
+  // VIEWPORT HANDLERS
+  let canvas: any;
+
+  function getCanvasSize(): Dimensions {
+    return { width: canvas.clientWidth, height: canvas.clientHeight };
+  }
+
+  // Kept in a signal for the components rendered inside the flow
+  const [canvasSize, setCanvasSize] = createSignal<Dimensions>({
+    width: 0,
+    height: 0,
+  });
+  onMount(() => {
+    setCanvasSize(getCanvasSize());
+    const observer = new ResizeObserver(() => setCanvasSize(getCanvasSize()));
+    observer.observe(canvas);
+    onCleanup(() => observer.disconnect());
+  });
+
+  // With onlyRenderVisibleElements, what lies in the viewport plus a margin is rendered.
+  // Each node and edge checks itself, so only the ones that moved are checked again.
+  const renderedRect = createMemo(() =>
+    props.onlyRenderVisibleElements
+      ? expandRect(
+          getViewportRect(viewport(), canvasSize()),
+          200 / viewport().zoom
+        )
+      : null
+  );
+
+  function isNodeVisible(index: number) {
+    const rect = renderedRect();
+    return (
+      rect === null ||
+      isNodeIntersecting(rect, nodesPositions[index], nodesDimensions()[index])
+    );
+  }
+
+  function isEdgeVisible(edgeId: string) {
+    const rect = renderedRect();
+    const position = edgesPositions[edgeId];
+    return (
+      rect === null ||
+      (position !== undefined && isEdgeIntersecting(rect, position))
+    );
+  }
+
+  function updateViewport(next: Viewport) {
+    setViewport(next);
+    if (props.onViewportChange) props.onViewportChange(next);
+  }
+
+  function zoomBy(factor: number, point: Position) {
+    const zoom = clampZoom(
+      viewport().zoom * factor,
+      props.minZoom ?? 0.2,
+      props.maxZoom ?? 4
+    );
+    updateViewport(zoomViewportAt(viewport(), zoom, point));
+  }
+
+  function handleOnPan(deltaX: number, deltaY: number) {
+    updateViewport({
+      x: viewport().x + deltaX,
+      y: viewport().y + deltaY,
+      zoom: viewport().zoom,
+    });
+  }
+
+  function handleOnWheel(event: WheelEvent) {
+    event.preventDefault();
+    const rect = canvas.getBoundingClientRect();
+    zoomBy(Math.pow(2, -event.deltaY * 0.002), {
+      x: event.clientX - rect.x,
+      y: event.clientY - rect.y,
+    });
+  }
+
+  function fitView(options: { padding?: number; nodes?: string[] } = {}) {
+    const indexes = nodesData
+      .map((node: NodeData, index: number) => index)
+      .filter(
+        (index: number) =>
+          !options.nodes || options.nodes.includes(nodesData[index].id)
+      );
+    const bounds = getNodesBounds(
+      indexes.map((index: number) => nodesPositions[index]),
+      indexes.map((index: number) => nodesDimensions()[index])
+    );
+    if (!bounds) return;
+    updateViewport(
+      getViewportForBounds(
+        bounds,
+        getCanvasSize(),
+        props.minZoom ?? 0.2,
+        props.maxZoom ?? 4,
+        options.padding ?? 0.1
+      )
+    );
+  }
+
+  const instance: SolidFlowInstance = {
+    fitView,
+    setCenter: (x: number, y: number, zoom?: number) =>
+      updateViewport(
+        getViewportForCenter({ x, y }, zoom ?? viewport().zoom, getCanvasSize())
+      ),
+    zoomIn: () =>
+      zoomBy(1.2, {
+        x: getCanvasSize().width / 2,
+        y: getCanvasSize().height / 2,
+      }),
+    zoomOut: () =>
+      zoomBy(1 / 1.2, {
+        x: getCanvasSize().width / 2,
+        y: getCanvasSize().height / 2,
+      }),
+    getViewport: () => ({ ...viewport() }),
+    setViewport: (next: Viewport) => updateViewport({ ...next }),
+    layout: handleOnLayout,
+    getSelection: () => ({
+      nodes: [...selectedNodes()],
+      edges: [...selectedEdges()],
+    }),
+    setSelection: (selection: Partial<Selection>) =>
+      batch(() => {
+        if (selection.nodes) setSelectedNodes([...selection.nodes]);
+        if (selection.edges) setSelectedEdges([...selection.edges]);
+      }),
+    undo,
+    redo,
+    canUndo: () => history().past.length > 0,
+    canRedo: () => history().future.length > 0,
+    copy,
+    paste,
+    duplicate,
+    toObject,
+    fromObject,
+  };
+  if (typeof props.ref === "function") props.ref(instance);
+
+  const context: FlowContextValue = {
+    instance,
+    viewport,
+    setViewport: updateViewport,
+    canvasSize,
+    nodes: nodesData,
+    nodesPositions,
+    nodesDimensions,
+    interactive,
+    setInteractive,
+    setHasBackground,
+  };
+
   // EDGE HANDLERS
+  function handleOnClickEdge(edgeId: string, toggle: boolean) {
+    if (toggle) {
+      setSelectedEdges((prev: string[]) =>
+        prev.includes(edgeId)
+          ? prev.filter((id: string) => id !== edgeId)
+          : [...prev, edgeId]
+      );
+      return;
+    }
+    batch(() => {
+      setSelectedNodes([]);
+      setSelectedEdges([edgeId]);
+    });
+  }
+
   function handleOnDeleteEdge(edgeId: string) {
+    recordHistory();
+    setSelectedEdges((prev: string[]) =>
+      prev.filter((id: string) => id !== edgeId)
+    );
     setNodesData(
       produce((nodesData: NodeData[]) => {
         const nodeSourceId = edgesNodes()[edgeId].outNodeId;
@@ -384,52 +1620,84 @@ const FlowChart: Component<Props> = (props: Props) => {
       return next;
     });
 
-    const activeEdgesKeys = Object.keys(edgesActives());
-    const activeEdges: EdgeProps[] = [];
-    for (let i = 0; i < activeEdgesKeys.length; i++) {
-      if (edgesActives()[activeEdgesKeys[i]]) {
-        const edgeInfo = edgesNodes()[activeEdgesKeys[i]];
-        activeEdges.push({
-          id: activeEdgesKeys[i],
-          sourceNode: edgeInfo.outNodeId,
-          sourceOutput: edgeInfo.outputIndex,
-          targetNode: edgeInfo.inNodeId,
-          targetInput: edgeInfo.inputIndex,
-        });
-      }
-    }
-    props.onEdgesChange(activeEdges);
+    emitEdgesChange([{ type: "remove", id: edgeId }]);
   }
 
   return (
-    <div class={styles.main}>
+    <div
+      class={`${styles.main} ${
+        hasBackground() || props.defaultBackground === false ? styles.plain : ""
+      }`}
+    >
       <div class={styles.wrapper}>
         <div
+          ref={canvas}
           class={styles.content}
           style={{
             cursor: newEdge() !== null ? "crosshair" : "inherit",
             height: props.height,
             width: props.width,
           }}
+          tabindex="0"
+          onWheel={handleOnWheel}
+          onKeyDown={handleOnKeyDown}
         >
           <NodesBoard
-            nodesPositions={nodesPositions()}
+            viewport={viewport()}
+            direction={getDirection()}
+            nodesPositions={nodesPositions}
             nodes={nodesData}
+            selectedNodes={selectedNodes()}
+            interactive={interactive()}
+            isNodeVisible={isNodeVisible}
+            nodeTypes={props.nodeTypes}
             onNodeMount={handleOnNodeMount}
             onNodePress={handleOnNodePress}
             onNodeMove={handleOnNodeMove}
             onNodeDelete={handleOnNodeDelete}
             onOutputMouseDown={handleOnOutputMouseDown}
             onInputMouseUp={handleOnInputMouseUp}
+            onOutputMouseUp={handleOnOutputMouseUp}
+            inputStatus={getInputStatus}
             onMouseUp={handleOnMouseUp}
             onMouseMove={handleOnMouseMove}
+            onPan={handleOnPan}
+            onZoom={zoomBy}
+            onSelectionBox={handleOnSelectionBox}
+            onSceneClick={handleOnSceneClick}
           />
           <EdgesBoard
+            viewport={viewport()}
             newEdge={newEdge()}
+            edgeSides={getEdgeSides}
+            edgesData={edgesData()}
+            edgeTypes={props.edgeTypes}
             edgesActives={edgesActives()}
-            edgesPositions={edgesPositions()}
+            edgesPositions={edgesPositions}
+            isEdgeVisible={isEdgeVisible}
+            selectedEdges={selectedEdges()}
+            interactive={interactive()}
+            onClickEdge={handleOnClickEdge}
+            onReconnectStart={handleOnReconnectStart}
             onDeleteEdge={handleOnDeleteEdge}
           />
+          <FlowContext.Provider value={context}>
+            {props.children}
+          </FlowContext.Provider>
+          {connectMenu() !== null && (
+            <ConnectMenu
+              x={
+                (connectMenu()?.position.x ?? 0) * viewport().zoom +
+                viewport().x
+              }
+              y={
+                (connectMenu()?.position.y ?? 0) * viewport().zoom +
+                viewport().y
+              }
+              items={props.connectMenu ?? []}
+              onSelect={handleOnConnectMenuSelect}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,114 @@
+import { EdgesNodes } from "./types";
+
+// The same index the flow builds from its edges
+export { getEdgesNodes } from "./utils";
+
+function getAdjacency(edgesNodes: EdgesNodes, reverse: boolean) {
+  const adjacency = new Map<string, string[]>();
+  Object.values(edgesNodes).forEach((edge) => {
+    const from = reverse ? edge.inNodeId : edge.outNodeId;
+    const to = reverse ? edge.outNodeId : edge.inNodeId;
+    const next = adjacency.get(from) ?? [];
+    if (!next.includes(to)) next.push(to);
+    adjacency.set(from, next);
+  });
+  return adjacency;
+}
+
+// Every node reachable from `nodeId` following the adjacency
+function getReachable(nodeId: string, adjacency: Map<string, string[]>) {
+  const visited = new Set<string>();
+  const stack = [...(adjacency.get(nodeId) ?? [])];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(adjacency.get(id) ?? []));
+  }
+  return [...visited];
+}
+
+// Nodes with an edge going into `nodeId`
+export function getIncomers(nodeId: string, edgesNodes: EdgesNodes): string[] {
+  return getAdjacency(edgesNodes, true).get(nodeId) ?? [];
+}
+
+// Nodes `nodeId` has an edge going to
+export function getOutgoers(nodeId: string, edgesNodes: EdgesNodes): string[] {
+  return getAdjacency(edgesNodes, false).get(nodeId) ?? [];
+}
+
+// Edges starting or ending at any of the given nodes
+export function getConnectedEdges(
+  nodeIds: string[],
+  edgesNodes: EdgesNodes
+): string[] {
+  return Object.keys(edgesNodes).filter(
+    (edgeId: string) =>
+      nodeIds.includes(edgesNodes[edgeId].outNodeId) ||
+      nodeIds.includes(edgesNodes[edgeId].inNodeId)
+  );
+}
+
+// Nodes from which `nodeId` can be reached
+export function getAncestors(nodeId: string, edgesNodes: EdgesNodes): string[] {
+  return getReachable(nodeId, getAdjacency(edgesNodes, true));
+}
+
+// Nodes that can be reached from `nodeId`
+export function getDescendants(
+  nodeId: string,
+  edgesNodes: EdgesNodes
+): string[] {
+  return getReachable(nodeId, getAdjacency(edgesNodes, false));
+}
+
+// Nodes ordered so every edge goes forward, null when the graph has a cycle.
+// Nodes only referenced by edges are included as well.
+export function topologicalSort(
+  nodeIds: string[],
+  edgesNodes: EdgesNodes
+): string[] | null {
+  const adjacency = getAdjacency(edgesNodes, false);
+  const ids = new Set(nodeIds);
+  Object.values(edgesNodes).forEach((edge) => {
+    ids.add(edge.outNodeId);
+    ids.add(edge.inNodeId);
+  });
+
+  const inDegrees = new Map([...ids].map((id: string) => [id, 0]));
+  adjacency.forEach((targets: string[]) =>
+    targets.forEach((id: string) =>
+      inDegrees.set(id, (inDegrees.get(id) as number) + 1)
+    )
+  );
+
+  const queue = [...ids].filter((id: string) => inDegrees.get(id) === 0);
+  const sorted: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    sorted.push(id);
+    (adjacency.get(id) ?? []).forEach((target: string) => {
+      inDegrees.set(target, (inDegrees.get(target) as number) - 1);
+      if (inDegrees.get(target) === 0) queue.push(target);
+    });
+  }
+  return sorted.length === ids.size ? sorted : null;
+}
+
+export function hasCycle(edgesNodes: EdgesNodes): boolean {
+  return topologicalSort([], edgesNodes) === null;
+}
+
+// An edge from `sourceNode` to `targetNode` closes a cycle when the source
+// can already be reached from the target
+export function createsCycle(
+  sourceNode: string,
+  targetNode: string,
+  edgesNodes: EdgesNodes
+): boolean {
+  return (
+    sourceNode === targetNode ||
+    getDescendants(targetNode, edgesNodes).includes(sourceNode)
+  );
+}
@@ -0,0 +1,133 @@
+import { Dimensions, Position } from "./types";
+
+interface ChangeNode {
+  id: string;
+  position: Position;
+  selected?: boolean;
+  dimensions?: Dimensions;
+}
+
+interface ChangeEdge {
+  id: string;
+  selected?: boolean;
+}
+
+export type NodeChange<N extends ChangeNode = ChangeNode> =
+  // `dragging` is true while the node is being dragged, false once dropped
+  | { type: "position"; id: string; position: Position; dragging: boolean }
+  | { type: "dimensions"; id: string; dimensions: Dimensions }
+  | { type: "select"; id: string; selected: boolean }
+  | { type: "remove"; id: string }
+  | { type: "add"; item: N };
+
+export type EdgeChange<E extends ChangeEdge = ChangeEdge> =
+  | { type: "select"; id: string; selected: boolean }
+  | { type: "remove"; id: string }
+  | { type: "add"; item: E }
+  // An edge drawn by the user between two ports
+  | { type: "connect"; item: E }
+  // An edge moved to other ports, `id` is its previous id and `item` holds
+  // the new one
+  | { type: "reconnect"; id: string; item: E };
+
+export function applyNodeChanges<N extends ChangeNode>(
+  changes: NodeChange<N>[],
+  nodes: N[]
+): N[] {
+  let next = [...nodes];
+  changes.forEach((change: NodeChange<N>) => {
+    if (change.type === "add") {
+      next.push(change.item);
+      return;
+    }
+    if (change.type === "remove") {
+      next = next.filter((node: N) => node.id !== change.id);
+      return;
+    }
+    next = next.map((node: N) => {
+      if (node.id !== change.id) return node;
+      switch (change.type) {
+        case "position":
+          return { ...node, position: { ...change.position } };
+        case "dimensions":
+          return { ...node, dimensions: { ...change.dimensions } };
+        case "select":
+          return { ...node, selected: change.selected };
+      }
+    });
+  });
+  return next;
+}
+
+export function applyEdgeChanges<E extends ChangeEdge>(
+  changes: EdgeChange<E>[],
+  edges: E[]
+): E[] {
+  let next = [...edges];
+  changes.forEach((change: EdgeChange<E>) => {
+    switch (change.type) {
+      case "add":
+      case "connect":
+        next.push(change.item);
+        break;
+      case "remove":
+        next = next.filter((edge: E) => edge.id !== change.id);
+        break;
+      case "reconnect":
+        next = next.map((edge: E) =>
+          edge.id === change.id ? change.item : edge
+        );
+        break;
+      case "select":
+        next = next.map((edge: E) =>
+          edge.id === change.id ? { ...edge, selected: change.selected } : edge
+        );
+        break;
+    }
+  });
+  return next;
+}
+
+// Changes turning `prev` into `next`, nodes are added, removed or moved
+export function getNodeChanges<N extends ChangeNode>(
+  prev: N[],
+  next: N[]
+): NodeChange<N>[] {
+  const prevNodes = new Map(prev.map((node: N) => [node.id, node]));
+  const nextIds = new Set(next.map((node: N) => node.id));
+  const changes: NodeChange<N>[] = prev
+    .filter((node: N) => !nextIds.has(node.id))
+    .map((node: N) => ({ type: "remove", id: node.id }));
+  next.forEach((node: N) => {
+    const prevNode = prevNodes.get(node.id);
+    if (!prevNode) {
+      changes.push({ type: "add", item: node });
+    } else if (
+      prevNode.position.x !== node.position.x ||
+      prevNode.position.y !== node.position.y
+    ) {
+      changes.push({
+        type: "position",
+        id: node.id,
+        position: { ...node.position },
+        dragging: false,
+      });
+    }
+  });
+  return changes;
+}
+
+export function getEdgeChanges<E extends ChangeEdge>(
+  prev: E[],
+  next: E[]
+): EdgeChange<E>[] {
+  const prevIds = new Set(prev.map((edge: E) => edge.id));
+  const nextIds = new Set(next.map((edge: E) => edge.id));
+  const changes: EdgeChange<E>[] = prev
+    .filter((edge: E) => !nextIds.has(edge.id))
+    .map((edge: E) => ({ type: "remove", id: edge.id }));
+  next
+    .filter((edge: E) => !prevIds.has(edge.id))
+    .forEach((edge: E) => changes.push({ type: "add", item: edge }));
+  return changes;
+}
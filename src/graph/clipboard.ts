@@ -0,0 +1,109 @@
+import { Position } from "./types";
+import { getEdgeId } from "./utils";
+
+interface ClipboardNode {
+  id: string;
+  position: Position;
+  data: any;
+}
+
+interface ClipboardEdge {
+  id: string;
+  sourceNode: string;
+  sourceOutput: number;
+  targetNode: string;
+  targetInput: number;
+}
+
+export interface ClipboardData<
+  N extends ClipboardNode,
+  E extends ClipboardEdge
+> {
+  nodes: N[];
+  edges: E[];
+}
+
+// Copy the given nodes along with the edges connecting them to each other
+export function copyNodes<N extends ClipboardNode, E extends ClipboardEdge>(
+  nodes: N[],
+  edges: E[],
+  nodeIds: string[]
+): ClipboardData<N, E> {
+  return {
+    nodes: nodes
+      .filter((node: N) => nodeIds.includes(node.id))
+      .map((node: N) => ({ ...node, position: { ...node.position } })),
+    edges: edges
+      .filter(
+        (edge: E) =>
+          nodeIds.includes(edge.sourceNode) &&
+          nodeIds.includes(edge.targetNode)
+      )
+      .map((edge: E) => ({ ...edge })),
+  };
+}
+
+// First free id of the form "<id>-copy", "<id>-copy-2"...
+function getCopyId(id: string, usedIds: Set<string>) {
+  const base = id.replace(/-copy(-\d+)?$/, "");
+  let copyId = `${base}-copy`;
+  for (let i = 2; usedIds.has(copyId); i++) copyId = `${base}-copy-${i}`;
+  return copyId;
+}
+
+// New nodes and edges from the clipboard with fresh ids. The copied nodes are
+// placed with the top left corner of their bounds at `position`, or shifted
+// by `offset` when no position is given. `transformData` builds the data of
+// each new node, content such as JSX elements can't be shared between nodes.
+export function pasteNodes<N extends ClipboardNode, E extends ClipboardEdge>(
+  clipboard: ClipboardData<N, E>,
+  usedIds: string[],
+  options: {
+    position?: Position;
+    offset?: Position;
+    transformData?: (data: N["data"], node: N) => N["data"];
+  } = {}
+): ClipboardData<N, E> {
+  const ids = new Set(usedIds);
+  const newIds = new Map<string, string>();
+  clipboard.nodes.forEach((node: N) => {
+    const newId = getCopyId(node.id, ids);
+    ids.add(newId);
+    newIds.set(node.id, newId);
+  });
+
+  const minX = Math.min(...clipboard.nodes.map((node: N) => node.position.x));
+  const minY = Math.min(...clipboard.nodes.map((node: N) => node.position.y));
+  const offset = options.position
+    ? { x: options.position.x - minX, y: options.position.y - minY }
+    : options.offset ?? { x: 20, y: 20 };
+
+  return {
+    nodes: clipboard.nodes.map((node: N) => ({
+      ...node,
+      id: newIds.get(node.id) as string,
+      position: {
+        x: node.position.x + offset.x,
+        y: node.position.y + offset.y,
+      },
+      data: options.transformData
+        ? options.transformData(node.data, node)
+        : { ...node.data },
+    })),
+    edges: clipboard.edges.map((edge: E) => {
+      const sourceNode = newIds.get(edge.sourceNode) as string;
+      const targetNode = newIds.get(edge.targetNode) as string;
+      return {
+        ...edge,
+        id: getEdgeId(
+          sourceNode,
+          edge.sourceOutput,
+          targetNode,
+          edge.targetInput
+        ),
+        sourceNode,
+        targetNode,
+      };
+    }),
+  };
+}
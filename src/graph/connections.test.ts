@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { CONNECT_DRAG_THRESHOLD, isCanvasDrop } from "./connections";
+
+describe("isCanvasDrop", () => {
+  it("ignores a click on an output without dragging", () => {
+    expect(isCanvasDrop({ x: 10, y: 10 }, { x: 10, y: 10 }, false)).toBe(false);
+    expect(
+      isCanvasDrop(
+        { x: 10, y: 10 },
+        { x: 10 + CONNECT_DRAG_THRESHOLD, y: 10 },
+        false
+      )
+    ).toBe(false);
+  });
+
+  it("ignores a release over a node", () => {
+    expect(isCanvasDrop({ x: 10, y: 10 }, { x: 200, y: 80 }, true)).toBe(false);
+  });
+
+  it("accepts an edge dragged out onto the canvas", () => {
+    expect(isCanvasDrop({ x: 10, y: 10 }, { x: 200, y: 80 }, false)).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { Position } from "./types";
+
+export interface Connection {
+  sourceNode: string;
+  sourceOutput: number;
+  targetNode: string;
+  targetInput: number;
+}
+
+// Ports without a `dataType` accept any other port, `maxConnections` limits
+// the number of edges arriving at an input
+export interface PortDefinition {
+  dataType?: string;
+  maxConnections?: number;
+}
+
+// Distance, in screen pixels, the pointer has to travel from an output before
+// releasing it counts as dropping the edge rather than clicking the output
+export const CONNECT_DRAG_THRESHOLD = 4;
+
+// An edge being drawn is dropped on the empty canvas when the pointer moved
+// past the threshold and was released away from any node or port
+export function isCanvasDrop(
+  press: Position,
+  release: Position,
+  overNode: boolean
+): boolean {
+  return (
+    !overNode &&
+    Math.hypot(release.x - press.x, release.y - press.y) >
+      CONNECT_DRAG_THRESHOLD
+  );
+}
+
+interface ConnectionNode {
+  id: string;
+  ports?: { inputs?: PortDefinition[]; outputs?: PortDefinition[] };
+}
+
+// Built-in rules every new edge has to follow: no self loops, no duplicates,
+// matching data types and a free slot on the input
+export function isConnectionAllowed(
+  connection: Connection,
+  nodes: ConnectionNode[],
+  edges: Connection[]
+): boolean {
+  if (connection.sourceNode === connection.targetNode) return false;
+  const source = nodes.find((node) => node.id === connection.sourceNode);
+  const target = nodes.find((node) => node.id === connection.targetNode);
+  if (!source || !target) return false;
+
+  const targetEdges = edges.filter(
+    (edge: Connection) =>
+      edge.targetNode === connection.targetNode &&
+      edge.targetInput === connection.targetInput
+  );
+  if (
+    targetEdges.some(
+      (edge: Connection) =>
+        edge.sourceNode === connection.sourceNode &&
+        edge.sourceOutput === connection.sourceOutput
+    )
+  )
+    return false;
+
+  const output = source.ports?.outputs?.[connection.sourceOutput];
+  const input = target.ports?.inputs?.[connection.targetInput];
+  if (output?.dataType && input?.dataType && output.dataType !== input.dataType)
+    return false;
+  if (
+    input?.maxConnections !== undefined &&
+    targetEdges.length >= input.maxConnections
+  )
+    return false;
+  return true;
+}
@@ -0,0 +1,299 @@
+import {
+  Dimensions,
+  EdgesActive,
+  EdgesNodes,
+  EdgesPositions,
+  NodeData,
+  NodeOffsets,
+  Position,
+} from "./types";
+import { LayoutOptions } from "./layout";
+import {
+  convertToLayeredGraph,
+  estimateNodeOffsets,
+  getEdgesNodes,
+  getEdgesPositions,
+  getNodesEdges,
+  toNodeData,
+} from "./utils";
+
+export interface GraphState {
+  nodesPositions: Position[];
+  nodesData: NodeData[];
+  nodesDimensions: Dimensions[];
+  nodesOffsets: NodeOffsets[];
+  edgesNodes: EdgesNodes;
+  edgesPositions: EdgesPositions;
+  edgesActives: EdgesActive;
+}
+
+type GraphNode = Parameters<typeof convertToLayeredGraph>[0][number];
+type GraphEdge = Parameters<typeof convertToLayeredGraph>[1][number];
+
+function samePosition(a: Position, b: Position) {
+  return a.x === b.x && a.y === b.y;
+}
+
+// Edges connected to a port index the node doesn't have anymore
+export function getDanglingEdges(
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): string[] {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  return edges
+    .filter((edge) => {
+      const source = nodesById.get(edge.sourceNode);
+      const target = nodesById.get(edge.targetNode);
+      return (
+        (source !== undefined && edge.sourceOutput >= source.outputs) ||
+        (target !== undefined && edge.targetInput >= target.inputs)
+      );
+    })
+    .map((edge) => edge.id);
+}
+
+function sameData(a: { [key: string]: any }, b: { [key: string]: any }) {
+  const keys = Object.keys(b);
+  return (
+    keys.length === Object.keys(a).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+}
+
+function sameIds(a: string[], b: string[]) {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+function sameNodeData(a: NodeData, b: NodeData) {
+  return (
+    a.type === b.type &&
+    sameData(a.data, b.data) &&
+    a.inputs === b.inputs &&
+    a.outputs === b.outputs &&
+    a.color === b.color &&
+    a.actions?.delete === b.actions?.delete &&
+    sameIds(a.edgesIn, b.edgesIn) &&
+    sameIds(a.edgesOut, b.edgesOut)
+  );
+}
+
+function sameEdgeNodes(
+  a: EdgesNodes[string] | undefined,
+  b: EdgesNodes[string]
+) {
+  return (
+    a !== undefined &&
+    a.outNodeId === b.outNodeId &&
+    a.outputIndex === b.outputIndex &&
+    a.inNodeId === b.inNodeId &&
+    a.inputIndex === b.inputIndex
+  );
+}
+
+// Whether the next nodes and edges only differ from the current state by positions it
+// already has, as when the parent echoes the position changes of a drag. Nothing is
+// built, so it stays cheap enough to run on every move.
+export function isPositionEcho(
+  current: Pick<GraphState, "nodesPositions" | "nodesData" | "edgesNodes">,
+  prevPositions: Map<string, Position>,
+  nextNodes: GraphNode[],
+  nextEdges: GraphEdge[]
+): boolean {
+  if (nextNodes.length !== current.nodesData.length) return false;
+  if (nextEdges.length !== Object.keys(current.edgesNodes).length) return false;
+  const sameNodes = nextNodes.every((node, index) => {
+    const data = current.nodesData[index];
+    const prevPosition = prevPositions.get(node.id);
+    return (
+      node.id === data.id &&
+      (samePosition(node.position, current.nodesPositions[index]) ||
+        (prevPosition !== undefined &&
+          samePosition(node.position, prevPosition))) &&
+      node.type === data.type &&
+      sameData(data.data, node.data) &&
+      node.inputs === data.inputs &&
+      node.outputs === data.outputs &&
+      (node.color ? node.color : "white") === data.color &&
+      node.actions?.delete === data.actions?.delete
+    );
+  });
+  return (
+    sameNodes &&
+    nextEdges.every((edge) => {
+      const edgeNodes = current.edgesNodes[edge.id];
+      return (
+        edgeNodes !== undefined &&
+        edgeNodes.outNodeId === edge.sourceNode &&
+        edgeNodes.outputIndex === edge.sourceOutput &&
+        edgeNodes.inNodeId === edge.targetNode &&
+        edgeNodes.inputIndex === edge.targetInput
+      );
+    })
+  );
+}
+
+// Changes to apply to the current graph state, anything left out is unchanged
+export interface GraphDiff {
+  // Set when nodes were added, removed or reordered, the index based arrays are
+  // replaced as a whole. Nodes that already exist keep their entries.
+  nodes: {
+    positions: Position[];
+    data: NodeData[];
+    dimensions: Dimensions[];
+    offsets: NodeOffsets[];
+  } | null;
+  // Otherwise the nodes whose fields or position changed, by index
+  changedNodes: { index: number; data: NodeData; position?: Position }[];
+  // Set when edges were added, removed or moved to other ports
+  edgesNodes: EdgesNodes | null;
+  edgesActives: EdgesActive | null;
+  // Edges that were added or moved to other ports, or whose nodes moved
+  edgesPositions: EdgesPositions;
+  // Edges that were removed or lost one of their nodes
+  removedEdgesPositions: string[];
+}
+
+// Diff the next nodes and edges against the current graph state, keyed by id. Nodes that
+// already exist keep their current position (unless the given one changed), measured size
+// and port offsets. Only the positions of the edges that changed or are attached to a node
+// that moved are computed again. New edges are only active when both of their nodes have
+// been mounted, the others keep their current state.
+export function diffGraph(
+  current: GraphState,
+  prevPositions: Map<string, Position>,
+  nextNodes: GraphNode[],
+  nextEdges: GraphEdge[],
+  mountedNodes: Set<string>,
+  layoutOptions: LayoutOptions = {}
+): GraphDiff {
+  const currentIndexes = new Map(
+    current.nodesData.map((node, index) => [node.id, index])
+  );
+  const nextIndexes = new Map(nextNodes.map((node, index) => [node.id, index]));
+  const reordered =
+    nextNodes.length !== current.nodesData.length ||
+    nextNodes.some((node, index) => current.nodesData[index].id !== node.id);
+
+  // Edges added, moved to other ports, or attached to a node that was added or removed
+  const nextEdgesNodes = getEdgesNodes(nextEdges);
+  const removedEdges = Object.keys(current.edgesNodes).filter(
+    (edgeId) => !(edgeId in nextEdgesNodes)
+  );
+  const changedEdges = new Set(
+    nextEdges
+      .filter(
+        (edge) =>
+          !sameEdgeNodes(current.edgesNodes[edge.id], nextEdgesNodes[edge.id]) ||
+          (reordered &&
+            [edge.sourceNode, edge.targetNode].some(
+              (nodeId) => currentIndexes.has(nodeId) !== nextIndexes.has(nodeId)
+            ))
+      )
+      .map((edge) => edge.id)
+  );
+  const edgesChanged = removedEdges.length > 0 || changedEdges.size > 0;
+  const nodesEdges = edgesChanged || reordered ? getNodesEdges(nextEdges) : null;
+
+  const nodes: GraphDiff["nodes"] = reordered
+    ? { positions: [], data: [], dimensions: [], offsets: [] }
+    : null;
+  const changedNodes: GraphDiff["changedNodes"] = [];
+  // Edges whose positions are computed again, those attached to the nodes that
+  // moved are added along the way
+  const positionedEdges = new Set(changedEdges);
+  nextNodes.forEach((node, index) => {
+    const currentIndex = currentIndexes.get(node.id);
+    const currentData =
+      currentIndex !== undefined ? current.nodesData[currentIndex] : undefined;
+    const data = toNodeData(
+      node,
+      nodesEdges?.get(node.id)?.edgesIn ?? currentData?.edgesIn ?? [],
+      nodesEdges?.get(node.id)?.edgesOut ?? currentData?.edgesOut ?? []
+    );
+
+    // Only reached when nodes were added, so `nodes` is set
+    if (currentIndex === undefined || !currentData) {
+      const dimensions = { width: 200, height: 100 };
+      nodes!.positions.push({ ...node.position });
+      nodes!.data.push(data);
+      nodes!.dimensions.push(dimensions);
+      nodes!.offsets.push(
+        estimateNodeOffsets(node, layoutOptions.rankdir ?? "LR", dimensions)
+      );
+      return;
+    }
+
+    // Positions the parent only echoes back are the ones the flow already has
+    const currentPosition = current.nodesPositions[currentIndex];
+    const prevPosition = prevPositions.get(node.id);
+    const moved =
+      !(prevPosition && samePosition(prevPosition, node.position)) &&
+      !samePosition(currentPosition, node.position);
+    if (moved)
+      [...data.edgesIn, ...data.edgesOut].forEach((edgeId) =>
+        positionedEdges.add(edgeId)
+      );
+    const position = moved ? { ...node.position } : currentPosition;
+
+    if (nodes) {
+      nodes.positions.push(position);
+      nodes.data.push(data);
+      nodes.dimensions.push(current.nodesDimensions[currentIndex]);
+      nodes.offsets.push(current.nodesOffsets[currentIndex]);
+    } else if (moved || !sameNodeData(currentData, data)) {
+      changedNodes.push({
+        index,
+        data,
+        position: moved ? position : undefined,
+      });
+    }
+  });
+
+  let edgesPositions: EdgesPositions = {};
+  if (positionedEdges.size > 0) {
+    const positions = nodes
+      ? nodes.positions
+      : changedNodes.reduce(
+          (acc, node) => {
+            if (node.position) acc[node.index] = node.position;
+            return acc;
+          },
+          [...current.nodesPositions]
+        );
+    edgesPositions = getEdgesPositions(
+      [...positionedEdges].reduce((acc: EdgesNodes, edgeId) => {
+        acc[edgeId] = nextEdgesNodes[edgeId];
+        return acc;
+      }, {}),
+      nextIndexes,
+      positions,
+      nodes ? nodes.offsets : current.nodesOffsets
+    );
+  }
+
+  const edgesActives = edgesChanged
+    ? nextEdges.reduce((acc: EdgesActive, edge) => {
+        acc[edge.id] = changedEdges.has(edge.id)
+          ? nextIndexes.has(edge.sourceNode) &&
+            nextIndexes.has(edge.targetNode) &&
+            mountedNodes.has(edge.sourceNode) &&
+            mountedNodes.has(edge.targetNode)
+          : current.edgesActives[edge.id];
+        return acc;
+      }, {})
+    : null;
+
+  return {
+    nodes,
+    changedNodes,
+    edgesNodes: edgesChanged ? nextEdgesNodes : null,
+    edgesActives,
+    edgesPositions,
+    removedEdgesPositions: [
+      ...removedEdges,
+      ...[...positionedEdges].filter(
+        (edgeId) => !edgesPositions[edgeId] && edgeId in current.edgesPositions
+      ),
+    ],
+  };
+}
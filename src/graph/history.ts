@@ -0,0 +1,51 @@
+// Snapshots of the graph before each edit, and of the edits undone since
+export interface History<T> {
+  past: T[];
+  future: T[];
+}
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// Record the state preceding a new edit, undone edits can't be redone anymore
+export function pushHistory<T>(
+  history: History<T>,
+  snapshot: T,
+  maxDepth: number
+): History<T> {
+  if (maxDepth <= 0) return createHistory();
+  return {
+    past: [...history.past, snapshot].slice(-maxDepth),
+    future: [],
+  };
+}
+
+// Step back to the last recorded state, `current` is kept to redo it
+export function undoHistory<T>(
+  history: History<T>,
+  current: T
+): { history: History<T>; snapshot: T } | null {
+  if (history.past.length === 0) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future],
+    },
+    snapshot: history.past[history.past.length - 1],
+  };
+}
+
+export function redoHistory<T>(
+  history: History<T>,
+  current: T
+): { history: History<T>; snapshot: T } | null {
+  if (history.future.length === 0) return null;
+  return {
+    history: {
+      past: [...history.past, current],
+      future: history.future.slice(1),
+    },
+    snapshot: history.future[0],
+  };
+}
@@ -0,0 +1,93 @@
+import { Position } from "./types";
+
+export type KeyAction =
+  | "delete"
+  | "selectAll"
+  | "cancel"
+  | "undo"
+  | "redo"
+  | "copy"
+  | "paste"
+  | "duplicate"
+  | "moveLeft"
+  | "moveRight"
+  | "moveUp"
+  | "moveDown";
+
+// Each action is triggered by any of its combinations, written as the key
+// preceded by its modifiers, e.g. "Mod+a" or "Shift+ArrowLeft". "Mod" is
+// ctrl, or cmd on macs. An empty list disables the action.
+export type KeyBindings = { [action in KeyAction]?: string[] };
+
+export const defaultKeyBindings: Required<KeyBindings> = {
+  delete: ["Delete", "Backspace"],
+  selectAll: ["Mod+a"],
+  cancel: ["Escape"],
+  undo: ["Mod+z"],
+  redo: ["Mod+Shift+z", "Mod+y"],
+  copy: ["Mod+c"],
+  paste: ["Mod+v"],
+  duplicate: ["Mod+d"],
+  moveLeft: ["ArrowLeft", "Shift+ArrowLeft"],
+  moveRight: ["ArrowRight", "Shift+ArrowRight"],
+  moveUp: ["ArrowUp", "Shift+ArrowUp"],
+  moveDown: ["ArrowDown", "Shift+ArrowDown"],
+};
+
+interface KeyEvent {
+  key: string;
+  shiftKey: boolean;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+// Modifiers have to match exactly, so "Mod+z" doesn't fire on "Mod+Shift+z"
+export function matchesKeys(event: KeyEvent, keys: string) {
+  const parts = keys.split("+");
+  const key = parts[parts.length - 1];
+  const modifiers = parts.slice(0, -1);
+  return (
+    event.key.toLowerCase() === key.toLowerCase() &&
+    event.shiftKey === modifiers.includes("Shift") &&
+    event.altKey === modifiers.includes("Alt") &&
+    (event.ctrlKey || event.metaKey) === modifiers.includes("Mod")
+  );
+}
+
+export function getKeyAction(
+  event: KeyEvent,
+  bindings: KeyBindings
+): KeyAction | null {
+  const action = (Object.keys(bindings) as KeyAction[]).find(
+    (action: KeyAction) =>
+      (bindings[action] || []).some((keys: string) => matchesKeys(event, keys))
+  );
+  return action ?? null;
+}
+
+// Typing inside a node content mustn't trigger the canvas shortcuts
+export function isEditableTarget(target: any) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+// Distance the selected nodes are moved by the arrow keys, larger with shift
+export function getNudgeDelta(action: KeyAction, large: boolean): Position {
+  const step = large ? 20 : 5;
+  switch (action) {
+    case "moveLeft":
+      return { x: -step, y: 0 };
+    case "moveRight":
+      return { x: step, y: 0 };
+    case "moveUp":
+      return { x: 0, y: -step };
+    case "moveDown":
+      return { x: 0, y: step };
+    default:
+      return { x: 0, y: 0 };
+  }
+}
@@ -0,0 +1,73 @@
+import { Direction, Position } from "./types";
+import dagre from "dagre";
+
+export interface LayoutNode {
+  id: string;
+  position: Position;
+  width: number;
+  height: number;
+}
+
+export interface LayoutEdge {
+  sourceNode: string;
+  targetNode: string;
+}
+
+export interface LayoutOptions {
+  rankdir?: Direction;
+  nodesep?: number;
+  ranksep?: number;
+  align?: "UL" | "UR" | "DL" | "DR";
+  ranker?: "network-simplex" | "tight-tree" | "longest-path";
+}
+
+export type LayoutFunction = (
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions
+) => Position[];
+
+export type Layout = "none" | "dagre" | LayoutFunction;
+
+// Layered layout computed by dagre, positions are the top left corner of each node
+export function dagreLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions = {}
+): Position[] {
+  const graph = new dagre.graphlib.Graph();
+  graph.setGraph({ rankdir: "LR", ...options });
+  graph.setDefaultEdgeLabel(() => ({}));
+
+  nodes.forEach((node) => {
+    graph.setNode(node.id, { width: node.width, height: node.height });
+  });
+
+  edges.forEach((edge) => {
+    graph.setEdge(edge.sourceNode, edge.targetNode);
+  });
+
+  dagre.layout(graph);
+
+  return nodes.map((node) => {
+    const { x, y, width, height } = graph.node(node.id);
+    return { x: x - width / 2, y: y - height / 2 };
+  });
+}
+
+export function computeLayout(
+  layout: Layout,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions = {}
+): Position[] {
+  const positions =
+    layout === "dagre"
+      ? dagreLayout(nodes, edges, options)
+      : typeof layout === "function"
+      ? layout(nodes, edges, options)
+      : nodes.map((node) => node.position);
+
+  // Always hand out copies, positions are mutated while dragging
+  return positions.map((position) => ({ x: position.x, y: position.y }));
+}
@@ -0,0 +1,199 @@
+import { PortSide, Position } from "./types";
+
+export interface EdgePathParams {
+  sourceX: number;
+  sourceY: number;
+  sourcePosition: PortSide;
+  targetX: number;
+  targetY: number;
+  targetPosition: PortSide;
+}
+
+// SVG path followed by the point where a label can be placed
+export type EdgePath = [path: string, labelX: number, labelY: number];
+
+export type EdgePathFunction = (params: EdgePathParams) => EdgePath;
+
+const directions: { [side: string]: Position } = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+};
+
+function isHorizontal(side: PortSide) {
+  return side === "left" || side === "right";
+}
+
+// Point at t = 0.5 of a cubic bezier curve
+function getBezierCenter(points: Position[]): Position {
+  const [p0, c0, c1, p1] = points;
+  return {
+    x: p0.x * 0.125 + c0.x * 0.375 + c1.x * 0.375 + p1.x * 0.125,
+    y: p0.y * 0.125 + c0.y * 0.375 + c1.y * 0.375 + p1.y * 0.125,
+  };
+}
+
+function getCubicPath(
+  params: EdgePathParams,
+  control0: Position,
+  control1: Position
+): EdgePath {
+  const { sourceX, sourceY, targetX, targetY } = params;
+  const center = getBezierCenter([
+    { x: sourceX, y: sourceY },
+    control0,
+    control1,
+    { x: targetX, y: targetY },
+  ]);
+  return [
+    `M ${sourceX} ${sourceY} C ${control0.x} ${control0.y}, ${control1.x} ${control1.y}, ${targetX} ${targetY}`,
+    center.x,
+    center.y,
+  ];
+}
+
+// Control points leave the source and reach the target perpendicular to their node sides
+export function getBezierPath(params: EdgePathParams): EdgePath {
+  const { sourceX, sourceY, targetX, targetY } = params;
+  const source = directions[params.sourcePosition];
+  const target = directions[params.targetPosition];
+  const offsetX = Math.abs(targetX - sourceX) / 2;
+  const offsetY = Math.abs(targetY - sourceY) / 2;
+  return getCubicPath(
+    params,
+    { x: sourceX + source.x * offsetX, y: sourceY + source.y * offsetY },
+    { x: targetX + target.x * offsetX, y: targetY + target.y * offsetY }
+  );
+}
+
+// Control points sit halfway between both ends, on the axis of each side
+export function getSimpleBezierPath(params: EdgePathParams): EdgePath {
+  const { sourceX, sourceY, targetX, targetY } = params;
+  const centerX = (sourceX + targetX) / 2;
+  const centerY = (sourceY + targetY) / 2;
+  return getCubicPath(
+    params,
+    isHorizontal(params.sourcePosition)
+      ? { x: centerX, y: sourceY }
+      : { x: sourceX, y: centerY },
+    isHorizontal(params.targetPosition)
+      ? { x: centerX, y: targetY }
+      : { x: targetX, y: centerY }
+  );
+}
+
+export function getStraightPath(params: EdgePathParams): EdgePath {
+  const { sourceX, sourceY, targetX, targetY } = params;
+  return [
+    `M ${sourceX} ${sourceY} L ${targetX} ${targetY}`,
+    (sourceX + targetX) / 2,
+    (sourceY + targetY) / 2,
+  ];
+}
+
+// Corners of an orthogonal route between both ends, leaving each node by `offset` first
+function getStepPoints(params: EdgePathParams, offset: number): Position[] {
+  const { sourceX, sourceY, targetX, targetY } = params;
+  const sourceDirection = directions[params.sourcePosition];
+  const targetDirection = directions[params.targetPosition];
+  const source = { x: sourceX, y: sourceY };
+  const target = { x: targetX, y: targetY };
+  const sourceGap = {
+    x: sourceX + sourceDirection.x * offset,
+    y: sourceY + sourceDirection.y * offset,
+  };
+  const targetGap = {
+    x: targetX + targetDirection.x * offset,
+    y: targetY + targetDirection.y * offset,
+  };
+  const centerX = (sourceGap.x + targetGap.x) / 2;
+  const centerY = (sourceGap.y + targetGap.y) / 2;
+  const sourceHorizontal = isHorizontal(params.sourcePosition);
+
+  if (sourceHorizontal !== isHorizontal(params.targetPosition)) {
+    const corner = sourceHorizontal
+      ? { x: targetGap.x, y: sourceGap.y }
+      : { x: sourceGap.x, y: targetGap.y };
+    return [source, sourceGap, corner, targetGap, target];
+  }
+
+  // Going forward a single turn halfway is enough, otherwise go around both nodes
+  if (sourceHorizontal) {
+    return sourceDirection.x * (targetGap.x - sourceGap.x) >= 0
+      ? [source, { x: centerX, y: sourceY }, { x: centerX, y: targetY }, target]
+      : [
+          source,
+          sourceGap,
+          { x: sourceGap.x, y: centerY },
+          { x: targetGap.x, y: centerY },
+          targetGap,
+          target,
+        ];
+  }
+  return sourceDirection.y * (targetGap.y - sourceGap.y) >= 0
+    ? [source, { x: sourceX, y: centerY }, { x: targetX, y: centerY }, target]
+    : [
+        source,
+        sourceGap,
+        { x: centerX, y: sourceGap.y },
+        { x: centerX, y: targetGap.y },
+        targetGap,
+        target,
+      ];
+}
+
+function getDistance(a: Position, b: Position) {
+  return Math.sqrt(Math.pow(b.x - a.x, 2) + Math.pow(b.y - a.y, 2));
+}
+
+// Draw the corners with a quadratic curve of `radius`, 0 keeps them sharp
+function getPolylinePath(points: Position[], radius: number) {
+  const unique = points.filter(
+    (point, index) =>
+      index === 0 || getDistance(point, points[index - 1]) > 0.001
+  );
+  return unique.reduce((path, point, index) => {
+    if (index === 0) return `M ${point.x} ${point.y}`;
+    if (index === unique.length - 1 || radius === 0)
+      return `${path} L ${point.x} ${point.y}`;
+    const prev = unique[index - 1];
+    const next = unique[index + 1];
+    const bend = Math.min(
+      radius,
+      getDistance(prev, point) / 2,
+      getDistance(point, next) / 2
+    );
+    const inX = Math.sign(point.x - prev.x);
+    const inY = Math.sign(point.y - prev.y);
+    const outX = Math.sign(next.x - point.x);
+    const outY = Math.sign(next.y - point.y);
+    return `${path} L ${point.x - inX * bend} ${point.y - inY * bend} Q ${
+      point.x
+    } ${point.y} ${point.x + outX * bend} ${point.y + outY * bend}`;
+  }, "");
+}
+
+export function getSmoothStepPath(
+  params: EdgePathParams,
+  borderRadius = 5,
+  offset = 20
+): EdgePath {
+  return [
+    getPolylinePath(getStepPoints(params, offset), borderRadius),
+    (params.sourceX + params.targetX) / 2,
+    (params.sourceY + params.targetY) / 2,
+  ];
+}
+
+export function getStepPath(params: EdgePathParams, offset = 20): EdgePath {
+  return getSmoothStepPath(params, 0, offset);
+}
+
+export const edgePaths: { [type: string]: EdgePathFunction } = {
+  bezier: getBezierPath,
+  simplebezier: getSimpleBezierPath,
+  straight: getStraightPath,
+  step: (params: EdgePathParams) => getStepPath(params),
+  smoothstep: (params: EdgePathParams) => getSmoothStepPath(params),
+};
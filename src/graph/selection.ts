@@ -0,0 +1,69 @@
+import {
+  Dimensions,
+  EdgesActive,
+  EdgesPositions,
+  Position,
+  Rect,
+} from "./types";
+
+function containsPoint(rect: Rect, x: number, y: number) {
+  return (
+    x >= rect.x &&
+    x <= rect.x + rect.width &&
+    y >= rect.y &&
+    y <= rect.y + rect.height
+  );
+}
+
+// Rectangle spanned by two corners dragged in any direction
+export function getRectFromPoints(start: Position, end: Position): Rect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+// Ids of the nodes lying entirely inside `rect`
+export function getNodesInside(
+  rect: Rect,
+  nodesIds: string[],
+  nodesPositions: Position[],
+  nodesDimensions: Dimensions[]
+): string[] {
+  return nodesIds.filter((id: string, index: number) => {
+    const position = nodesPositions[index];
+    const dimensions = nodesDimensions[index];
+    return (
+      containsPoint(rect, position.x, position.y) &&
+      containsPoint(
+        rect,
+        position.x + dimensions.width,
+        position.y + dimensions.height
+      )
+    );
+  });
+}
+
+// Ids of the active edges with both ends inside `rect`
+export function getEdgesInside(
+  rect: Rect,
+  edgesPositions: EdgesPositions,
+  edgesActives: EdgesActive
+): string[] {
+  return Object.keys(edgesPositions).filter((edgeId: string) => {
+    const position = edgesPositions[edgeId];
+    return (
+      edgesActives[edgeId] &&
+      containsPoint(rect, position.x0, position.y0) &&
+      containsPoint(rect, position.x1, position.y1)
+    );
+  });
+}
+
+// Selections are compared regardless of the order ids were picked in
+export function isSameSelection(a: string[], b: string[]) {
+  const ids = new Set(b);
+  return a.length === b.length && a.every((id: string) => ids.has(id));
+}
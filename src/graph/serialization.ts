@@ -0,0 +1,150 @@
+import { PortDefinition } from "./connections";
+import { Position, Viewport } from "./types";
+
+// Bumped whenever the shape of FlowObject changes, older objects go through
+// the migrations registered for their version
+export const FLOW_OBJECT_VERSION = 1;
+
+export interface FlowObjectNode {
+  id: string;
+  type?: string;
+  position: Position;
+  // Data fields that can be stored as JSON, JSX content is left out
+  data: { label?: string; [key: string]: any };
+  inputs: number;
+  outputs: number;
+  color?: string;
+  actions?: { delete: boolean };
+  ports?: { inputs?: PortDefinition[]; outputs?: PortDefinition[] };
+}
+
+export interface FlowObjectEdge {
+  id: string;
+  type?: string;
+  sourceNode: string;
+  sourceOutput: number;
+  targetNode: string;
+  targetInput: number;
+  // Markers, styles and the other fields that can be stored as JSON
+  [key: string]: any;
+}
+
+export interface FlowObject {
+  version: number;
+  nodes: FlowObjectNode[];
+  edges: FlowObjectEdge[];
+  viewport: Viewport;
+}
+
+// Rebuild the content of the nodes of a type from their data, nodes without a
+// type use the "default" entry
+export interface NodeContentBuilders {
+  [type: string]: (data: FlowObjectNode["data"], node: FlowObjectNode) => any;
+}
+
+// Turn an object saved with version `n` into one of version `n + 1`
+export interface FlowMigrations {
+  [version: number]: (object: any) => any;
+}
+
+interface SerializableNode {
+  id: string;
+  type?: string;
+  position: Position;
+  data: { [key: string]: any };
+  inputs: number;
+  outputs: number;
+  color?: string;
+  actions?: { delete: boolean };
+  ports?: { inputs?: PortDefinition[]; outputs?: PortDefinition[] };
+}
+
+interface SerializableEdge {
+  id: string;
+  sourceNode: string;
+  sourceOutput: number;
+  targetNode: string;
+  targetInput: number;
+}
+
+// Primitives, arrays and plain objects made of them, which JSON keeps as is
+function isSerializable(value: any): boolean {
+  if (value === null) return true;
+  if (["string", "number", "boolean"].includes(typeof value)) return true;
+  if (Array.isArray(value)) return value.every(isSerializable);
+  if (typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    (prototype === Object.prototype || prototype === null) &&
+    Object.values(value).every(isSerializable)
+  );
+}
+
+function pickSerializable(object: { [key: string]: any }, omit: string[]) {
+  return Object.keys(object).reduce((acc: { [key: string]: any }, key) => {
+    if (!omit.includes(key) && isSerializable(object[key]))
+      acc[key] = JSON.parse(JSON.stringify(object[key]));
+    return acc;
+  }, {});
+}
+
+export function serializeFlow(
+  nodes: SerializableNode[],
+  edges: SerializableEdge[],
+  viewport: Viewport
+): FlowObject {
+  return {
+    version: FLOW_OBJECT_VERSION,
+    nodes: nodes.map((node: SerializableNode) => ({
+      ...(pickSerializable(node, [
+        "data",
+        "selected",
+        "dimensions",
+      ]) as Omit<FlowObjectNode, "data">),
+      data: pickSerializable(node.data, []),
+    })),
+    edges: edges.map(
+      (edge: SerializableEdge) =>
+        pickSerializable(edge, ["selected"]) as FlowObjectEdge
+    ),
+    viewport: { ...viewport },
+  };
+}
+
+// Bring an object saved by any version up to date and rebuild the content of
+// its nodes. Objects that can't be migrated are rejected.
+export function deserializeFlow(
+  object: any,
+  options: { builders?: NodeContentBuilders; migrations?: FlowMigrations } = {}
+): {
+  nodes: (FlowObjectNode & { data: { content: any } })[];
+  edges: FlowObjectEdge[];
+  viewport: Viewport;
+} {
+  let current = object;
+  while (current.version < FLOW_OBJECT_VERSION) {
+    const migrate = options.migrations?.[current.version];
+    if (!migrate)
+      throw new Error(`No migration from flow version ${current.version}`);
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  if (current.version !== FLOW_OBJECT_VERSION)
+    throw new Error(`Unsupported flow version ${current.version}`);
+
+  const flow = current as FlowObject;
+  return {
+    nodes: flow.nodes.map((node: FlowObjectNode) => {
+      const build = options.builders?.[node.type ?? "default"];
+      return {
+        ...node,
+        position: { ...node.position },
+        data: {
+          ...node.data,
+          content: build ? build(node.data, node) : node.data.content,
+        },
+      };
+    }),
+    edges: flow.edges.map((edge: FlowObjectEdge) => ({ ...edge })),
+    viewport: { ...flow.viewport },
+  };
+}
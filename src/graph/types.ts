@@ -12,12 +12,14 @@ export interface Vector {
 
 export interface NodeData {
   id: string;
+  type?: string;
   data: { label?: string; content: any };
   inputs: number;
   outputs: number;
   edgesIn: string[];
   edgesOut: string[];
   color: string;
+  actions?: { delete: boolean };
 }
 
 export interface EdgesNodes {
@@ -36,3 +38,30 @@ export interface EdgesPositions {
 export interface EdgesActive {
   [id: string]: boolean;
 }
+
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Direction = "TB" | "BT" | "LR" | "RL";
+
+export type PortSide = "left" | "right" | "top" | "bottom";
+
+export interface NodeOffsets {
+  inputs: { offset: Position; side?: PortSide }[];
+  outputs: { offset: Position; side?: PortSide }[];
+}
@@ -1,11 +1,15 @@
 import {
+  Dimensions,
+  Direction,
   Position,
   NodeData,
   EdgesNodes,
   EdgesPositions,
   EdgesActive,
+  NodeOffsets,
+  PortSide,
 } from "./types";
-import dagre from "dagre";
+import { computeLayout, Layout, LayoutOptions } from "./layout";
 
 export function getEdgeId(
   nodeOutId: string,
@@ -16,80 +20,129 @@ export function getEdgeId(
   return `edge_${nodeOutId}:${outputIndex}_${nodeInId}:${inputIndex}`;
 }
 
-// Function to convert an initial graph structure into a layered graph representation
-export function convertToLayeredGraph(
-  initialNodes: {
-    id: string;
-    position: Position;
-    data: { label?: string; content: any };
-    inputs: number;
-    outputs: number;
-    color?: string;
-  }[],
-  initialEdges: {
-    id: string;
-    sourceNode: string;
-    sourceOutput: number;
-    targetNode: string;
-    targetInput: number;
-  }[]
-): {
-  initNodesPositions: Position[];
-  initNodesData: NodeData[];
-  initNodesOffsets: {
-    inputs: { offset: Position }[];
-    outputs: { offset: Position }[];
-  }[];
-  initEdgesNodes: EdgesNodes;
-  initEdgesPositions: EdgesPositions;
-  initEdgesActives: EdgesActive;
-} {
-  const graph = new dagre.graphlib.Graph();
-  graph.setGraph({ rankdir: "LR" });
-  graph.setDefaultEdgeLabel(() => ({}));
+// Spacing shared by snapToGrid and the Background component, so snapped nodes
+// sit on the drawn grid
+export const defaultGrid: [number, number] = [25, 25];
 
-  initialNodes.forEach((node) => {
-    graph.setNode(node.id, { width: 200, height: 100 });
-  });
+// Round a position to the closest point of a grid of `grid[0]` by `grid[1]`
+export function snapToGrid(
+  position: Position,
+  grid: [number, number]
+): Position {
+  return {
+    x: Math.round(position.x / grid[0]) * grid[0],
+    y: Math.round(position.y / grid[1]) * grid[1],
+  };
+}
 
-  initialEdges.forEach((edge) => {
-    graph.setEdge(edge.sourceNode, edge.targetNode);
-  });
+// Side of the node where inputs and outputs are placed for each direction
+export function getPortSide(
+  direction: Direction,
+  type: "input" | "output"
+): PortSide {
+  const sides = {
+    LR: ["left", "right"],
+    RL: ["right", "left"],
+    TB: ["top", "bottom"],
+    BT: ["bottom", "top"],
+  } as const;
+  return sides[direction][type === "input" ? 0 : 1];
+}
 
-  dagre.layout(graph);
+function estimatePortOffset(
+  direction: Direction,
+  type: "input" | "output",
+  index: number,
+  dimensions: Dimensions
+): { offset: Position; side: PortSide } {
+  const along = 30 + index * 34;
+  const side = getPortSide(direction, type);
+  switch (side) {
+    case "left":
+      return { offset: { x: -12, y: along }, side };
+    case "right":
+      return { offset: { x: dimensions.width + 14, y: along }, side };
+    case "top":
+      return { offset: { x: along, y: -12 }, side };
+    case "bottom":
+      return { offset: { x: along, y: dimensions.height + 14 }, side };
+  }
+}
+
+interface GraphNode {
+  id: string;
+  type?: string;
+  position: Position;
+  data: { label?: string; content: any };
+  inputs: number;
+  outputs: number;
+  color?: string;
+  actions?: { delete: boolean };
+}
+
+interface GraphEdge {
+  id: string;
+  sourceNode: string;
+  sourceOutput: number;
+  targetNode: string;
+  targetInput: number;
+}
 
-  const initNodesPositions = initialNodes.map((node) => graph.node(node.id));
+// Edges arriving at and leaving each node, found in a single pass over the edges
+export function getNodesEdges(
+  edges: GraphEdge[]
+): Map<string, { edgesIn: string[]; edgesOut: string[] }> {
+  const nodesEdges = new Map<string, { edgesIn: string[]; edgesOut: string[] }>();
+  const get = (nodeId: string) => {
+    if (!nodesEdges.has(nodeId))
+      nodesEdges.set(nodeId, { edgesIn: [], edgesOut: [] });
+    return nodesEdges.get(nodeId)!;
+  };
+  edges.forEach((edge) => {
+    get(edge.targetNode).edgesIn.push(edge.id);
+    get(edge.sourceNode).edgesOut.push(edge.id);
+  });
+  return nodesEdges;
+}
 
-  const initNodesData: NodeData[] = initialNodes.map((node) => ({
+export function toNodeData(
+  node: GraphNode,
+  edgesIn: string[],
+  edgesOut: string[]
+): NodeData {
+  return {
     id: node.id,
-    data: node.data,
+    type: node.type,
+    // Copied so fields changed in place by the parent are picked up as changes
+    data: { ...node.data },
     inputs: node.inputs,
     outputs: node.outputs,
     color: node.color ? node.color : "white",
-    edgesIn: initialEdges
-      .filter((edge) => edge.targetNode === node.id)
-      .map((edge) => edge.id),
-    edgesOut: initialEdges
-      .filter((edge) => edge.sourceNode === node.id)
-      .map((edge) => edge.id),
-  }));
+    actions: node.actions,
+    edgesIn,
+    edgesOut,
+  };
+}
 
-  const initNodesOffsets = initialNodes.map((node) => ({
-    inputs: Array.from({ length: node.inputs }, (_, index) => ({
-      offset: {
-        x: node.position.x,
-        y: node.position.y + (index + 1) * 20 - (node.inputs + 1) * 10,
-      },
-    })),
-    outputs: Array.from({ length: node.outputs }, (_, index) => ({
-      offset: {
-        x: node.position.x + 200,
-        y: node.position.y + (index + 1) * 20 - (node.outputs + 1) * 10,
-      },
-    })),
-  }));
+// Estimated port offsets, replaced by the measured ones once the node mounts
+export function estimateNodeOffsets(
+  node: GraphNode,
+  direction: Direction,
+  dimensions: Dimensions
+): NodeOffsets {
+  return {
+    inputs: Array.from({ length: node.inputs }, (_, index) =>
+      estimatePortOffset(direction, "input", index, dimensions)
+    ),
+    outputs: Array.from({ length: node.outputs }, (_, index) =>
+      estimatePortOffset(direction, "output", index, dimensions)
+    ),
+  };
+}
 
-  const initEdgesNodes = initialEdges.reduce((acc: EdgesNodes, edge) => {
+// Index edges by id the way the flow keeps them internally
+export function getEdgesNodes(edges: GraphEdge[]): EdgesNodes {
+  return edges.reduce((acc: EdgesNodes, edge) => {
     acc[edge.id] = {
       outNodeId: edge.sourceNode,
       outputIndex: edge.sourceOutput,
@@ -98,36 +151,76 @@ export function convertToLayeredGraph(
     };
     return acc;
   }, {});
+}
+
+// Function to convert an initial graph structure into a layered graph representation
+export function convertToLayeredGraph(
+  initialNodes: GraphNode[],
+  initialEdges: GraphEdge[],
+  layout: Layout = "none",
+  layoutOptions: LayoutOptions = {}
+): {
+  initNodesPositions: Position[];
+  initNodesData: NodeData[];
+  initNodesDimensions: Dimensions[];
+  initNodesOffsets: NodeOffsets[];
+  initEdgesNodes: EdgesNodes;
+  initEdgesPositions: EdgesPositions;
+  initEdgesActives: EdgesActive;
+} {
+  const initNodesDimensions = initialNodes.map(() => ({
+    width: 200,
+    height: 100,
+  }));
 
-  const initEdgesPositions = initialEdges.reduce(
-    (acc: EdgesPositions, edge) => {
-      // Find source and target nodes, with fallback to default position
-      const sourceNode = initialNodes.find((node) => node.id === edge.sourceNode);
-      const targetNode = initialNodes.find((node) => node.id === edge.targetNode);
-
-      // Only add edge if both nodes exist
-      if (sourceNode && targetNode) {
-        acc[edge.id] = {
-          x0: sourceNode.position.x + 200,
-          y0: sourceNode.position.y - 10,
-          x1: targetNode.position.x,
-          y1: targetNode.position.y - 10,
-        };
-      } else {
-        // Log warning but don't crash
-        console.warn(
-          `[solid-flow] Edge "${edge.id}" references missing node(s):`,
-          {
-            sourceNode: edge.sourceNode,
-            sourceExists: !!sourceNode,
-            targetNode: edge.targetNode,
-            targetExists: !!targetNode,
-          }
-        );
-      }
-      return acc;
-    },
-    {}
+  const initNodesPositions = computeLayout(
+    layout,
+    initialNodes.map((node, index) => ({
+      ...node,
+      ...initNodesDimensions[index],
+    })),
+    initialEdges,
+    layoutOptions
+  );
+
+  const nodesEdges = getNodesEdges(initialEdges);
+  const initNodesData: NodeData[] = initialNodes.map((node) =>
+    toNodeData(
+      node,
+      nodesEdges.get(node.id)?.edgesIn ?? [],
+      nodesEdges.get(node.id)?.edgesOut ?? []
+    )
+  );
+
+  const initNodesOffsets = initialNodes.map((node, nodeIndex) =>
+    estimateNodeOffsets(
+      node,
+      layoutOptions.rankdir ?? "LR",
+      initNodesDimensions[nodeIndex]
+    )
+  );
+
+  const initEdgesNodes = getEdgesNodes(initialEdges);
+
+  const indexes = new Map(initialNodes.map((node, index) => [node.id, index]));
+  initialEdges.forEach((edge) => {
+    // Log warning but don't crash
+    if (!indexes.has(edge.sourceNode) || !indexes.has(edge.targetNode))
+      console.warn(
+        `[solid-flow] Edge "${edge.id}" references missing node(s):`,
+        {
+          sourceNode: edge.sourceNode,
+          sourceExists: indexes.has(edge.sourceNode),
+          targetNode: edge.targetNode,
+          targetExists: indexes.has(edge.targetNode),
+        }
+      );
+  });
+  const initEdgesPositions = getEdgesPositions(
+    initEdgesNodes,
+    indexes,
+    initNodesPositions,
+    initNodesOffsets
   );
 
   const initEdgesActives = initialEdges.reduce((acc: EdgesActive, edge) => {
@@ -138,9 +231,36 @@ export function convertToLayeredGraph(
   return {
     initNodesPositions,
     initNodesData,
+    initNodesDimensions,
     initNodesOffsets,
     initEdgesNodes,
     initEdgesPositions,
     initEdgesActives,
   };
 }
+
+// Position of every edge whose nodes and ports exist, from node positions and port offsets.
+// `indexes` maps the node ids to their index in the other arrays.
+export function getEdgesPositions(
+  edgesNodes: EdgesNodes,
+  indexes: Map<string, number>,
+  nodesPositions: Position[],
+  nodesOffsets: NodeOffsets[]
+): EdgesPositions {
+  return Object.keys(edgesNodes).reduce((acc: EdgesPositions, edgeId) => {
+    const edge = edgesNodes[edgeId];
+    const sourceIndex = indexes.get(edge.outNodeId);
+    const targetIndex = indexes.get(edge.inNodeId);
+    if (sourceIndex === undefined || targetIndex === undefined) return acc;
+    const output = nodesOffsets[sourceIndex].outputs[edge.outputIndex];
+    const input = nodesOffsets[targetIndex].inputs[edge.inputIndex];
+    if (!output || !input) return acc;
+    acc[edgeId] = {
+      x0: nodesPositions[sourceIndex].x + output.offset.x,
+      y0: nodesPositions[sourceIndex].y + output.offset.y,
+      x1: nodesPositions[targetIndex].x + input.offset.x,
+      y1: nodesPositions[targetIndex].y + input.offset.y,
+    };
+    return acc;
+  }, {});
+}
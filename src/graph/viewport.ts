@@ -0,0 +1,151 @@
+import {
+  Dimensions,
+  Position,
+  Rect,
+  Vector,
+  Viewport,
+} from "./types";
+
+export function clampZoom(zoom: number, minZoom: number, maxZoom: number) {
+  return Math.min(Math.max(zoom, minZoom), maxZoom);
+}
+
+// Scale the viewport to `zoom` keeping the screen point `point` in place
+export function zoomViewportAt(
+  viewport: Viewport,
+  zoom: number,
+  point: Position
+): Viewport {
+  const ratio = zoom / viewport.zoom;
+  return {
+    x: point.x - (point.x - viewport.x) * ratio,
+    y: point.y - (point.y - viewport.y) * ratio,
+    zoom,
+  };
+}
+
+// Convert a point relative to the canvas into graph coordinates
+export function screenToGraph(point: Position, viewport: Viewport): Position {
+  return {
+    x: (point.x - viewport.x) / viewport.zoom,
+    y: (point.y - viewport.y) / viewport.zoom,
+  };
+}
+
+// Smallest rectangle containing every node, null when there are no nodes
+export function getNodesBounds(
+  positions: Position[],
+  dimensions: Dimensions[]
+): Rect | null {
+  if (positions.length === 0) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  positions.forEach((position, index) => {
+    minX = Math.min(minX, position.x);
+    minY = Math.min(minY, position.y);
+    maxX = Math.max(maxX, position.x + dimensions[index].width);
+    maxY = Math.max(maxY, position.y + dimensions[index].height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Viewport showing `point` at the center of a canvas of the given size
+export function getViewportForCenter(
+  point: Position,
+  zoom: number,
+  canvas: Dimensions
+): Viewport {
+  return {
+    x: canvas.width / 2 - point.x * zoom,
+    y: canvas.height / 2 - point.y * zoom,
+    zoom,
+  };
+}
+
+// Viewport fitting `bounds` into the canvas, `padding` is a fraction of the bounds size
+export function getViewportForBounds(
+  bounds: Rect,
+  canvas: Dimensions,
+  minZoom: number,
+  maxZoom: number,
+  padding: number
+): Viewport {
+  const width = Math.max(bounds.width * (1 + padding * 2), 1);
+  const height = Math.max(bounds.height * (1 + padding * 2), 1);
+  const zoom = clampZoom(
+    Math.min(canvas.width / width, canvas.height / height),
+    minZoom,
+    maxZoom
+  );
+  return getViewportForCenter(
+    {
+      x: bounds.x + bounds.width / 2,
+      y: bounds.y + bounds.height / 2,
+    },
+    zoom,
+    canvas
+  );
+}
+
+// Part of the graph visible in a canvas of the given size
+export function getViewportRect(viewport: Viewport, canvas: Dimensions): Rect {
+  return {
+    x: -viewport.x / viewport.zoom,
+    y: -viewport.y / viewport.zoom,
+    width: canvas.width / viewport.zoom,
+    height: canvas.height / viewport.zoom,
+  };
+}
+
+// Smallest rectangle containing both `a` and `b`
+export function getRectsUnion(a: Rect, b: Rect): Rect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// Rectangle grown by `margin` on every side
+export function expandRect(rect: Rect, margin: number): Rect {
+  return {
+    x: rect.x - margin,
+    y: rect.y - margin,
+    width: rect.width + margin * 2,
+    height: rect.height + margin * 2,
+  };
+}
+
+function intersects(a: Rect, b: Rect) {
+  return (
+    a.x <= b.x + b.width &&
+    b.x <= a.x + a.width &&
+    a.y <= b.y + b.height &&
+    b.y <= a.y + a.height
+  );
+}
+
+// Whether a node overlaps `rect`, even partially
+export function isNodeIntersecting(
+  rect: Rect,
+  position: Position,
+  dimensions: Dimensions
+): boolean {
+  return intersects(rect, { ...position, ...dimensions });
+}
+
+// Whether the box spanned by the ends of an edge overlaps `rect`
+export function isEdgeIntersecting(rect: Rect, position: Vector): boolean {
+  const { x0, y0, x1, y1 } = position;
+  return intersects(rect, {
+    x: Math.min(x0, x1),
+    y: Math.min(y0, y1),
+    width: Math.abs(x1 - x0),
+    height: Math.abs(y1 - y0),
+  });
+}
@@ -1,2 +1,66 @@
 export { default as SolidFlow } from "./components";
-export type { NodeProps as Node, EdgeProps as Edge } from "./components";
+export { default as MiniMap } from "./components/MiniMap";
+export { default as Background } from "./components/Background";
+export type { BackgroundVariant } from "./components/Background";
+export {
+  default as Controls,
+  ControlButton,
+} from "./components/Controls";
+export { useSolidFlow } from "./components/context";
+export type {
+  FlowContextValue,
+  PanelPosition,
+} from "./components/context";
+export type {
+  NodeProps as Node,
+  EdgeProps as Edge,
+  SolidFlowInstance,
+  ConnectEnd,
+  ConnectMenuItem,
+  Selection,
+  NodeTypeProps,
+  HandleProps,
+  EdgeTypeProps,
+  EdgeMarker,
+} from "./components";
+export type {
+  Viewport,
+  PortSide,
+  EdgesNodes,
+  NodeData,
+} from "./graph/types";
+export type { KeyAction, KeyBindings } from "./graph/keyboard";
+export type { Connection, PortDefinition } from "./graph/connections";
+export {
+  getBezierPath,
+  getSimpleBezierPath,
+  getStraightPath,
+  getStepPath,
+  getSmoothStepPath,
+} from "./graph/paths";
+export type { EdgePath, EdgePathParams } from "./graph/paths";
+export { applyNodeChanges, applyEdgeChanges } from "./graph/changes";
+export type { NodeChange, EdgeChange } from "./graph/changes";
+export {
+  getEdgesNodes,
+  getIncomers,
+  getOutgoers,
+  getConnectedEdges,
+  getAncestors,
+  getDescendants,
+  topologicalSort,
+  hasCycle,
+  createsCycle,
+} from "./graph/algorithms";
+export {
+  FLOW_OBJECT_VERSION,
+  serializeFlow,
+  deserializeFlow,
+} from "./graph/serialization";
+export type {
+  FlowObject,
+  FlowObjectNode,
+  FlowObjectEdge,
+  NodeContentBuilders,
+  FlowMigrations,
+} from "./graph/serialization";